@@ -0,0 +1,5 @@
+/** Upload attempts before a queue item is left in error when maxUploadAttempts is unset */
+export const DEFAULT_MAX_UPLOAD_ATTEMPTS = 5;
+
+/** Database backups kept when backupRetentionCount is unset */
+export const DEFAULT_BACKUP_RETENTION = 10;
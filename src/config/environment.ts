@@ -23,6 +23,14 @@ export function getEnvironmentConfig(env: string = DEFAULT_ENVIRONMENT): Environ
   return ENVIRONMENTS[env] || ENVIRONMENTS[DEFAULT_ENVIRONMENT];
 }
 
+/**
+ * Whether an API URL belongs to the local development environment, the only
+ * one that accepts test-user headers instead of a signed-in user's token
+ */
+export function isLocalEnvironment(apiBaseUrl: string): boolean {
+  return apiBaseUrl.replace(/\/+$/, '') === ENVIRONMENTS.local.apiBaseUrl;
+}
+
 export function getAllEnvironments(): EnvironmentConfig[] {
   return Object.values(ENVIRONMENTS);
 }
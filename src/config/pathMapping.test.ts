@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import { PathMapping, isLocalPath, localToRemote, remoteToLocal, suggestPathMapping } from './pathMapping';
+
+describe('isLocalPath', () => {
+  it('treats Windows drive paths as local on every platform', () => {
+    expect(isLocalPath('E:\\365\\OneDrive - Broadlink', 'win32')).toBe(true);
+    expect(isLocalPath('C:/Users/me', 'linux')).toBe(true);
+    expect(isLocalPath('D:', 'win32')).toBe(true);
+  });
+
+  it('treats UNC paths as local on every platform', () => {
+    expect(isLocalPath('\\\\fileserver\\share\\Clients', 'win32')).toBe(true);
+    expect(isLocalPath('\\\\fileserver\\share', 'darwin')).toBe(true);
+  });
+
+  it('treats slash paths as local only on POSIX', () => {
+    expect(isLocalPath('/Users/me/OneDrive', 'darwin')).toBe(true);
+    expect(isLocalPath('/home/me/OneDrive', 'linux')).toBe(true);
+    expect(isLocalPath('/Clients/Loans', 'win32')).toBe(false);
+  });
+
+  it('treats relative drive paths as remote', () => {
+    expect(isLocalPath('Clients/Loans', 'win32')).toBe(false);
+    expect(isLocalPath('Clients/Loans', 'linux')).toBe(false);
+    expect(isLocalPath('', 'linux')).toBe(false);
+  });
+});
+
+describe('localToRemote', () => {
+  const mappings: PathMapping[] = [
+    { id: 'personal', localRoot: 'E:\\365\\OneDrive - Broadlink', remoteRoot: '' },
+    { id: 'library', localRoot: 'E:\\365\\OneDrive - Broadlink\\Shared', driveId: 'drive-b', remoteRoot: 'Documents' },
+    { id: 'nas', localRoot: '\\\\fileserver\\share', driveId: 'drive-c', remoteRoot: 'Archive' },
+    { id: 'mac', localRoot: '/Users/me/OneDrive', remoteRoot: 'Mac' }
+  ];
+
+  it('maps Windows drive paths case-insensitively', () => {
+    expect(localToRemote('e:\\365\\onedrive - broadlink\\Clients\\Loans', mappings)).toEqual({
+      mapping: mappings[0],
+      driveId: undefined,
+      remotePath: 'Clients/Loans'
+    });
+  });
+
+  it('prefers the mapping with the longest local root', () => {
+    const location = localToRemote('E:\\365\\OneDrive - Broadlink\\Shared\\Policies', mappings);
+    expect(location?.mapping.id).toBe('library');
+    expect(location?.driveId).toBe('drive-b');
+    expect(location?.remotePath).toBe('Documents/Policies');
+  });
+
+  it('maps UNC paths', () => {
+    const location = localToRemote('\\\\fileserver\\share\\2024\\Q1', mappings);
+    expect(location?.mapping.id).toBe('nas');
+    expect(location?.remotePath).toBe('Archive/2024/Q1');
+  });
+
+  it('does not match a UNC path against a different share', () => {
+    expect(localToRemote('\\\\otherserver\\share\\2024', mappings)).toBeNull();
+  });
+
+  it('maps POSIX paths case-sensitively', () => {
+    expect(localToRemote('/Users/me/OneDrive/Clients', mappings)?.remotePath).toBe('Mac/Clients');
+    expect(localToRemote('/users/me/onedrive/Clients', mappings)).toBeNull();
+  });
+
+  it('returns null when no mapping covers the path', () => {
+    expect(localToRemote('F:\\Elsewhere', mappings)).toBeNull();
+  });
+});
+
+describe('remoteToLocal', () => {
+  const mappings: PathMapping[] = [
+    { id: 'personal', localRoot: 'E:\\365\\OneDrive - Broadlink', remoteRoot: '' },
+    { id: 'library', localRoot: 'E:\\365\\Broadlink - Documents', driveId: 'drive-b', remoteRoot: 'Shared' },
+    { id: 'nas', localRoot: '\\\\fileserver\\share', driveId: 'drive-c', remoteRoot: '' },
+    { id: 'mac', localRoot: '/Users/me/OneDrive', driveId: 'drive-d', remoteRoot: '' }
+  ];
+
+  it('converts to a Windows drive path', () => {
+    expect(remoteToLocal('/Clients/Loans', mappings)).toBe('E:\\365\\OneDrive - Broadlink\\Clients\\Loans');
+  });
+
+  it('only considers mappings for the given drive', () => {
+    const driveMappings = mappings.slice(1);
+    expect(remoteToLocal('Shared/Policies', driveMappings, 'drive-b')).toBe('E:\\365\\Broadlink - Documents\\Policies');
+    expect(remoteToLocal('2024', driveMappings, 'drive-c')).toBe('\\\\fileserver\\share\\2024');
+    expect(remoteToLocal('Clients', driveMappings, 'drive-d')).toBe('/Users/me/OneDrive/Clients');
+  });
+
+  it('falls back to default drive mappings for any drive', () => {
+    expect(remoteToLocal('Clients', mappings, 'drive-e')).toBe('E:\\365\\OneDrive - Broadlink\\Clients');
+  });
+
+  it('returns the drive root for an empty remote path', () => {
+    expect(remoteToLocal('', [mappings[0]])).toBe('E:\\365\\OneDrive - Broadlink');
+  });
+
+  it('returns null when no mapping covers the path', () => {
+    expect(remoteToLocal('Clients', [mappings[1]], 'drive-b')).toBeNull();
+  });
+});
+
+describe('suggestPathMapping', () => {
+  it('uses the OneDrive folder of a Windows drive path as the root', () => {
+    expect(suggestPathMapping('E:\\365\\OneDrive - Broadlink\\Drop')).toEqual({
+      id: 'default',
+      localRoot: 'E:\\365\\OneDrive - Broadlink',
+      remoteRoot: ''
+    });
+  });
+
+  it('uses the OneDrive folder of a UNC path as the root', () => {
+    expect(suggestPathMapping('\\\\fileserver\\users\\OneDrive\\Drop')?.localRoot).toBe('\\\\fileserver\\users\\OneDrive');
+  });
+
+  it('uses the OneDrive folder of a POSIX path as the root', () => {
+    expect(suggestPathMapping('/Users/me/OneDrive - Broadlink/Drop')?.localRoot).toBe('/Users/me/OneDrive - Broadlink');
+  });
+
+  it('returns null without a OneDrive folder', () => {
+    expect(suggestPathMapping('E:\\Documents\\Drop')).toBeNull();
+    expect(suggestPathMapping('Clients/Loans')).toBeNull();
+  });
+});
@@ -0,0 +1,209 @@
+export interface PathMapping {
+  id: string;
+  /** Local folder that OneDrive syncs into, e.g. E:\365\OneDrive - Broadlink */
+  localRoot: string;
+  /** Graph drive ID; the default drive is used when empty */
+  driveId?: string;
+  /** Folder inside the drive that localRoot corresponds to, '' for the drive root */
+  remoteRoot: string;
+}
+
+/** Settings remembered for one signed-in Microsoft account */
+export interface AccountSettings {
+  /** The account's own mappings; the shared mappings are used when unset */
+  pathMappings?: PathMapping[];
+  /** Drive uploads go to when a mapping does not name one; guessed when unset */
+  driveId?: string;
+}
+
+export interface RemoteLocation {
+  mapping: PathMapping;
+  driveId?: string;
+  /** Path relative to the drive root using forward slashes, '' for the root */
+  remotePath: string;
+}
+
+interface ParsedLocalPath {
+  windows: boolean;
+  segments: string[];
+}
+
+function currentPlatform(): string {
+  if (typeof process !== 'undefined' && process.platform) {
+    return process.platform;
+  }
+  // Sandboxed renderers have no process object
+  return typeof navigator !== 'undefined' && /^win/i.test(navigator.platform) ? 'win32' : 'posix';
+}
+
+/**
+ * Check whether a path is a local filesystem path (Windows drive, UNC or POSIX absolute)
+ * rather than a path inside a OneDrive drive. Windows has no local paths starting
+ * with "/", so there such a path, e.g. "/Clients/Loans", is a remote one.
+ */
+export function isLocalPath(value: string, platform: string = currentPlatform()): boolean {
+  if (/^[a-zA-Z]:([\\/]|$)/.test(value) || /^\\\\[^\\]/.test(value)) {
+    return true;
+  }
+  return platform !== 'win32' && value.startsWith('/');
+}
+
+function parseLocalPath(value: string): ParsedLocalPath {
+  const windows = /^[a-zA-Z]:/.test(value) || value.startsWith('\\\\');
+  const separator = windows ? /[\\/]+/ : /\/+/;
+  const unc = windows && value.startsWith('\\\\');
+  const segments = value.split(separator).filter(segment => segment.length > 0);
+  if (unc && segments.length > 0) {
+    // Keep \\server distinguishable from a relative "server" segment
+    segments[0] = `\\\\${segments[0]}`;
+  }
+  return { windows, segments };
+}
+
+function segmentsEqual(a: string, b: string, windows: boolean): boolean {
+  return windows ? a.toLowerCase() === b.toLowerCase() : a === b;
+}
+
+function formatLocalPath(parsed: ParsedLocalPath): string {
+  if (!parsed.windows) {
+    return '/' + parsed.segments.join('/');
+  }
+  const joined = parsed.segments.join('\\');
+  // A bare drive letter needs its trailing separator to mean the drive root
+  return /^[a-zA-Z]:$/.test(joined) ? `${joined}\\` : joined;
+}
+
+/**
+ * Normalize a path inside a drive: forward slashes, no leading or trailing slash
+ */
+export function normalizeRemotePath(value: string): string {
+  return value
+    .replace(/\\/g, '/')
+    .split('/')
+    .filter(segment => segment.length > 0)
+    .join('/');
+}
+
+export function joinRemotePath(...parts: string[]): string {
+  return normalizeRemotePath(parts.filter(part => part).join('/'));
+}
+
+/**
+ * Convert a local sync path to its drive and remote path using the mapping with
+ * the longest matching local root. Returns null when no mapping covers the path.
+ */
+export function localToRemote(localPath: string, mappings: PathMapping[]): RemoteLocation | null {
+  const target = parseLocalPath(localPath);
+  let best: { mapping: PathMapping; depth: number } | null = null;
+
+  for (const mapping of mappings) {
+    const root = parseLocalPath(mapping.localRoot);
+    if (root.windows !== target.windows || root.segments.length === 0 || root.segments.length > target.segments.length) {
+      continue;
+    }
+
+    const matches = root.segments.every((segment, index) =>
+      segmentsEqual(segment, target.segments[index], target.windows)
+    );
+    if (matches && (!best || root.segments.length > best.depth)) {
+      best = { mapping, depth: root.segments.length };
+    }
+  }
+
+  if (!best) {
+    return null;
+  }
+
+  return {
+    mapping: best.mapping,
+    driveId: best.mapping.driveId || undefined,
+    remotePath: joinRemotePath(best.mapping.remoteRoot, ...target.segments.slice(best.depth))
+  };
+}
+
+/**
+ * Convert a remote path back to the local sync path using the mapping with the
+ * longest matching remote root. When driveId is given only mappings for that
+ * drive (or for the default drive) are considered.
+ */
+export function remoteToLocal(remotePath: string, mappings: PathMapping[], driveId?: string): string | null {
+  const targetSegments = normalizeRemotePath(remotePath).split('/').filter(segment => segment);
+  let best: { mapping: PathMapping; depth: number } | null = null;
+
+  for (const mapping of mappings) {
+    if (driveId && mapping.driveId && mapping.driveId !== driveId) {
+      continue;
+    }
+
+    const rootSegments = normalizeRemotePath(mapping.remoteRoot).split('/').filter(segment => segment);
+    if (rootSegments.length > targetSegments.length) {
+      continue;
+    }
+
+    // OneDrive paths are case-insensitive
+    const matches = rootSegments.every((segment, index) =>
+      segment.toLowerCase() === targetSegments[index].toLowerCase()
+    );
+    if (matches && (!best || rootSegments.length > best.depth)) {
+      best = { mapping, depth: rootSegments.length };
+    }
+  }
+
+  if (!best) {
+    return null;
+  }
+
+  const root = parseLocalPath(best.mapping.localRoot);
+  return formatLocalPath({
+    windows: root.windows,
+    segments: [...root.segments, ...targetSegments.slice(best.depth)]
+  });
+}
+
+/**
+ * Guess a mapping from a path inside a OneDrive sync folder by treating the
+ * first "OneDrive..." folder as the root of the default drive
+ */
+export function suggestPathMapping(localPath: string): PathMapping | null {
+  if (!localPath || !isLocalPath(localPath)) {
+    return null;
+  }
+
+  const parsed = parseLocalPath(localPath);
+  const rootIndex = parsed.segments.findIndex(segment => /^OneDrive\b/i.test(segment));
+  if (rootIndex === -1) {
+    return null;
+  }
+
+  return {
+    id: 'default',
+    localRoot: formatLocalPath({ windows: parsed.windows, segments: parsed.segments.slice(0, rootIndex + 1) }),
+    remoteRoot: ''
+  };
+}
+
+/**
+ * Mappings from preferences, falling back to one inferred from the configured folders
+ */
+export function resolvePathMappings(preferences: { pathMappings?: PathMapping[]; oneDriveRootFolder?: string; dropFolderPath?: string } | null): PathMapping[] {
+  if (preferences?.pathMappings && preferences.pathMappings.length > 0) {
+    return preferences.pathMappings;
+  }
+
+  const suggested = suggestPathMapping(preferences?.oneDriveRootFolder || '') || suggestPathMapping(preferences?.dropFolderPath || '');
+  return suggested ? [suggested] : [];
+}
+
+/**
+ * Mappings for a signed-in account: its own if it has any, otherwise the shared ones
+ */
+export function resolveAccountPathMappings(
+  preferences: { pathMappings?: PathMapping[]; oneDriveRootFolder?: string; dropFolderPath?: string; accountSettings?: Record<string, AccountSettings> } | null,
+  accountId: string | undefined
+): PathMapping[] {
+  const accountMappings = accountId ? preferences?.accountSettings?.[accountId]?.pathMappings : undefined;
+  if (accountMappings && accountMappings.length > 0) {
+    return accountMappings;
+  }
+  return resolvePathMappings(preferences);
+}
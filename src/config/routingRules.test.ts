@@ -0,0 +1,154 @@
+import { describe, expect, it } from 'vitest';
+import { RoutingRule, RuleInput, applyRenameTemplate, evaluateRules, globToRegExp, ruleMatches } from './routingRules';
+
+function rule(overrides: Partial<RoutingRule> = {}): RoutingRule {
+  return {
+    id: 'rule',
+    name: 'Rule',
+    enabled: true,
+    tagIds: [],
+    autoUpload: false,
+    ...overrides
+  };
+}
+
+function input(overrides: Partial<RuleInput> = {}): RuleInput {
+  return {
+    fileName: 'Invoice 2024.pdf',
+    fileSize: 2048,
+    sourceSubfolder: '',
+    detectedAt: new Date(2024, 2, 5),
+    ...overrides
+  };
+}
+
+describe('globToRegExp', () => {
+  it('matches * and ? case-insensitively', () => {
+    expect(globToRegExp('*invoice*.pdf').test('Scanned INVOICE 12.PDF')).toBe(true);
+    expect(globToRegExp('scan-??.tif').test('scan-07.tif')).toBe(true);
+    expect(globToRegExp('scan-??.tif').test('scan-7.tif')).toBe(false);
+  });
+
+  it('escapes regular expression characters in the pattern', () => {
+    expect(globToRegExp('report (v1)+[final].pdf').test('report (v1)+[final].pdf')).toBe(true);
+    expect(globToRegExp('report (v1)+[final].pdf').test('report v1f.pdf')).toBe(false);
+    expect(globToRegExp('a.pdf').test('aXpdf')).toBe(false);
+    expect(globToRegExp('$^{1}|x').test('$^{1}|x')).toBe(true);
+  });
+});
+
+describe('ruleMatches', () => {
+  it('matches every file when no conditions are set', () => {
+    expect(ruleMatches(rule(), input())).toBe(true);
+  });
+
+  it('never matches a disabled rule', () => {
+    expect(ruleMatches(rule({ enabled: false }), input())).toBe(false);
+  });
+
+  it('matches extensions ignoring case and a leading dot', () => {
+    expect(ruleMatches(rule({ extensions: ['.PDF', ' docx '] }), input())).toBe(true);
+    expect(ruleMatches(rule({ extensions: ['pdf'] }), input({ fileName: 'scan.PDF' }))).toBe(true);
+    expect(ruleMatches(rule({ extensions: ['pdf'] }), input({ fileName: 'scan.docx' }))).toBe(false);
+    expect(ruleMatches(rule({ extensions: ['pdf'] }), input({ fileName: 'README' }))).toBe(false);
+  });
+
+  it('ignores an extension list with only blank entries', () => {
+    expect(ruleMatches(rule({ extensions: ['', ' . '] }), input({ fileName: 'README' }))).toBe(true);
+  });
+
+  it('applies inclusive size bounds', () => {
+    const bounded = rule({ minSizeBytes: 1024, maxSizeBytes: 4096 });
+    expect(ruleMatches(bounded, input({ fileSize: 1024 }))).toBe(true);
+    expect(ruleMatches(bounded, input({ fileSize: 4096 }))).toBe(true);
+    expect(ruleMatches(bounded, input({ fileSize: 1023 }))).toBe(false);
+    expect(ruleMatches(bounded, input({ fileSize: 4097 }))).toBe(false);
+    expect(ruleMatches(rule({ maxSizeBytes: 4096 }), input({ fileSize: 0 }))).toBe(true);
+  });
+
+  it('does not match a size bound when the size is unknown', () => {
+    expect(ruleMatches(rule({ minSizeBytes: 0 }), input({ fileSize: undefined }))).toBe(false);
+  });
+
+  it('matches the subfolder and anything below it, whatever the separators', () => {
+    const scans = rule({ sourceSubfolder: 'Loans/Scans' });
+    expect(ruleMatches(scans, input({ sourceSubfolder: 'Loans\\Scans' }))).toBe(true);
+    expect(ruleMatches(scans, input({ sourceSubfolder: 'loans\\scans\\2024\\' }))).toBe(true);
+    expect(ruleMatches(rule({ sourceSubfolder: '.\\Loans\\Scans\\' }), input({ sourceSubfolder: 'Loans/Scans' }))).toBe(true);
+    expect(ruleMatches(scans, input({ sourceSubfolder: 'Loans\\ScansOld' }))).toBe(false);
+    expect(ruleMatches(scans, input({ sourceSubfolder: '' }))).toBe(false);
+  });
+});
+
+describe('applyRenameTemplate', () => {
+  it('keeps the original name without a template', () => {
+    expect(applyRenameTemplate(undefined, input())).toBe('Invoice 2024.pdf');
+    expect(applyRenameTemplate('   ', input())).toBe('Invoice 2024.pdf');
+  });
+
+  it('fills in the name, date and subfolder tokens', () => {
+    const renamed = applyRenameTemplate('{date} {SUBFOLDER} {name}', input({ sourceSubfolder: 'Loans\\Scans' }));
+    expect(renamed).toBe('2024-03-05 Scans Invoice 2024.pdf');
+    expect(applyRenameTemplate('{year}{month}{day}-{name}.{ext}', input())).toBe('20240305-Invoice 2024.pdf');
+  });
+
+  it('adds the original extension when the result has a different one or none', () => {
+    expect(applyRenameTemplate('{name} v1.2', input())).toBe('Invoice 2024 v1.2.pdf');
+    expect(applyRenameTemplate('{name}.PDF', input())).toBe('Invoice 2024.PDF');
+  });
+
+  it('adds no extension for a file without one', () => {
+    expect(applyRenameTemplate('{date} {name}{ext}', input({ fileName: 'README' }))).toBe('2024-03-05 README');
+    expect(applyRenameTemplate('{name}', input({ fileName: '.env' }))).toBe('.env');
+  });
+
+  it('replaces characters that are not allowed in file names', () => {
+    expect(applyRenameTemplate('{name}: <draft>?', input())).toBe('Invoice 2024_ _draft__.pdf');
+    expect(applyRenameTemplate('{subfolder}|{name}', input({ fileName: 'a*b.pdf', sourceSubfolder: 'Q1' }))).toBe('Q1_a_b.pdf');
+  });
+
+  it('leaves unknown tokens as written', () => {
+    expect(applyRenameTemplate('{client} {name}', input())).toBe('{client} Invoice 2024.pdf');
+  });
+
+  it('keeps the original name when the template comes out empty', () => {
+    expect(applyRenameTemplate('{subfolder}', input())).toBe('Invoice 2024.pdf');
+  });
+});
+
+describe('evaluateRules', () => {
+  it('returns the first matching rule in order', () => {
+    const rules = [
+      rule({ id: 'docx', extensions: ['docx'] }),
+      rule({ id: 'invoices', filenamePattern: 'invoice*', targetFolder: 'Invoices', targetDriveId: 'drive-b', tagIds: [3], renameTemplate: '{date} {name}', autoUpload: true }),
+      rule({ id: 'pdf', extensions: ['pdf'], targetFolder: 'PDFs' })
+    ];
+
+    expect(evaluateRules(rules, input())).toEqual({
+      rule: rules[1],
+      targetFolder: 'Invoices',
+      targetDriveId: 'drive-b',
+      tagIds: [3],
+      fileName: '2024-03-05 Invoice 2024.pdf',
+      autoUpload: true
+    });
+    expect(evaluateRules(rules, input({ fileName: 'scan.pdf' }))?.rule.id).toBe('pdf');
+  });
+
+  it('skips disabled rules', () => {
+    const rules = [rule({ id: 'off', enabled: false }), rule({ id: 'on' })];
+    expect(evaluateRules(rules, input())?.rule.id).toBe('on');
+  });
+
+  it('leaves unset targets undefined', () => {
+    const match = evaluateRules([rule({ targetFolder: '', targetDriveId: '' })], input());
+    expect(match?.targetFolder).toBeUndefined();
+    expect(match?.targetDriveId).toBeUndefined();
+    expect(match?.fileName).toBe('Invoice 2024.pdf');
+  });
+
+  it('returns null when no rule matches', () => {
+    expect(evaluateRules([rule({ extensions: ['docx'] })], input())).toBeNull();
+    expect(evaluateRules([], input())).toBeNull();
+  });
+});
@@ -0,0 +1,174 @@
+export interface RoutingRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  /** Glob matched against the file name, e.g. "*invoice*.pdf" (case-insensitive) */
+  filenamePattern?: string;
+  /** Extensions without the dot, e.g. ["pdf", "docx"] */
+  extensions?: string[];
+  minSizeBytes?: number;
+  maxSizeBytes?: number;
+  /** Subfolder of the drop folder the file must be in, e.g. "Loans/Scans" */
+  sourceSubfolder?: string;
+  /** OneDrive folder the file is filed into */
+  targetFolder?: string;
+  /** Drive targetFolder is in, e.g. a SharePoint document library; the account's default drive when unset */
+  targetDriveId?: string;
+  tagIds: number[];
+  /** Template for the uploaded name, e.g. "{date} {name}" - see applyRenameTemplate */
+  renameTemplate?: string;
+  /** Upload without waiting for review (only when auto-processing is enabled) */
+  autoUpload: boolean;
+}
+
+export interface RuleInput {
+  fileName: string;
+  fileSize?: number;
+  /** Folder of the file relative to the drop folder, '' for the drop folder itself */
+  sourceSubfolder: string;
+  detectedAt?: Date;
+}
+
+export interface RuleMatch {
+  rule: RoutingRule;
+  targetFolder?: string;
+  targetDriveId?: string;
+  tagIds: number[];
+  fileName: string;
+  autoUpload: boolean;
+}
+
+const INVALID_FILENAME_CHARS = /[\\/:*?"<>|]/g;
+
+export function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern
+    .split('')
+    .map(char => {
+      if (char === '*') return '.*';
+      if (char === '?') return '.';
+      return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${escaped}$`, 'i');
+}
+
+function splitFileName(fileName: string): { name: string; ext: string } {
+  const dotIndex = fileName.lastIndexOf('.');
+  if (dotIndex <= 0) {
+    return { name: fileName, ext: '' };
+  }
+  return { name: fileName.substring(0, dotIndex), ext: fileName.substring(dotIndex + 1) };
+}
+
+function normalizeSubfolder(value: string): string {
+  return value
+    .replace(/\\/g, '/')
+    .split('/')
+    .filter(segment => segment.length > 0 && segment !== '.')
+    .join('/')
+    .toLowerCase();
+}
+
+/**
+ * Check a single rule's conditions against a file. Conditions that are not set always match.
+ */
+export function ruleMatches(rule: RoutingRule, input: RuleInput): boolean {
+  if (!rule.enabled) {
+    return false;
+  }
+
+  if (rule.filenamePattern && !globToRegExp(rule.filenamePattern).test(input.fileName)) {
+    return false;
+  }
+
+  const allowedExtensions = (rule.extensions || [])
+    .map(extension => extension.trim().replace(/^\./, '').toLowerCase())
+    .filter(extension => extension.length > 0);
+  if (allowedExtensions.length > 0) {
+    const ext = splitFileName(input.fileName).ext.toLowerCase();
+    if (!allowedExtensions.includes(ext)) {
+      return false;
+    }
+  }
+
+  if (rule.minSizeBytes !== undefined || rule.maxSizeBytes !== undefined) {
+    if (input.fileSize === undefined) {
+      return false;
+    }
+    if (rule.minSizeBytes !== undefined && input.fileSize < rule.minSizeBytes) {
+      return false;
+    }
+    if (rule.maxSizeBytes !== undefined && input.fileSize > rule.maxSizeBytes) {
+      return false;
+    }
+  }
+
+  if (rule.sourceSubfolder) {
+    const expected = normalizeSubfolder(rule.sourceSubfolder);
+    const actual = normalizeSubfolder(input.sourceSubfolder);
+    if (actual !== expected && !actual.startsWith(`${expected}/`)) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Build the uploaded file name from a template. Supported placeholders:
+ * {name} (without extension), {ext}, {date} (YYYY-MM-DD), {year}, {month}, {day}
+ * and {subfolder}. The original extension is kept when the result has none.
+ */
+export function applyRenameTemplate(template: string | undefined, input: RuleInput): string {
+  if (!template || !template.trim()) {
+    return input.fileName;
+  }
+
+  const { name, ext } = splitFileName(input.fileName);
+  const date = input.detectedAt || new Date();
+  const year = date.getFullYear().toString();
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  const values: Record<string, string> = {
+    name,
+    ext,
+    date: `${year}-${month}-${day}`,
+    year,
+    month,
+    day,
+    subfolder: input.sourceSubfolder.replace(/\\/g, '/').split('/').filter(segment => segment).pop() || ''
+  };
+
+  let result = template
+    .replace(/\{(\w+)\}/g, (placeholder, key: string) => values[key.toLowerCase()] ?? placeholder)
+    .replace(INVALID_FILENAME_CHARS, '_')
+    .trim();
+
+  if (!result) {
+    return input.fileName;
+  }
+  if (ext && splitFileName(result).ext.toLowerCase() !== ext.toLowerCase()) {
+    result = `${result}.${ext}`;
+  }
+  return result;
+}
+
+/**
+ * Check rules in order and return the outcome of the first one that matches,
+ * or null when the file should be left for manual review
+ */
+export function evaluateRules(rules: RoutingRule[], input: RuleInput): RuleMatch | null {
+  const rule = rules.find(candidate => ruleMatches(candidate, input));
+  if (!rule) {
+    return null;
+  }
+
+  return {
+    rule,
+    targetFolder: rule.targetFolder || undefined,
+    targetDriveId: rule.targetDriveId || undefined,
+    tagIds: rule.tagIds || [],
+    fileName: applyRenameTemplate(rule.renameTemplate, input),
+    autoUpload: rule.autoUpload
+  };
+}
@@ -1,6 +1,8 @@
-import axios, { AxiosResponse } from 'axios';
+import axios, { AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { EventEmitter } from 'events';
 import * as fs from 'fs';
 import FormData from 'form-data';
+import { isLocalEnvironment } from '../config/environment';
 
 export interface FileTag {
   id: number;
@@ -24,17 +26,111 @@ export interface UploadResponse {
   associations?: any[];
 }
 
-export class ApiClient {
+export interface FileTagAssociationRequest {
+  file_id: string;
+  tag_id: number;
+  item_type: 'file' | 'folder';
+  drive_id: string;
+  notes?: string;
+}
+
+export interface FileTagAssociation extends FileTagAssociationRequest {
+  id: number;
+  created_at?: string;
+}
+
+/**
+ * A failed BrokerNet API call. The message always reads "<operation> failed: <reason>",
+ * using the backend's own message when it sends one.
+ */
+export class ApiError extends Error {
+  /** HTTP status, or undefined when no response was received */
+  status?: number;
+
+  constructor(operation: string, error: any) {
+    const data = error?.response?.data;
+    const backendMessage = typeof data === 'string' ? data : data?.message || data?.error;
+    const reason = backendMessage
+      || (error?.response ? `HTTP ${error.response.status} ${error.response.statusText || ''}`.trim() : error?.message || String(error));
+
+    super(`${operation} failed: ${reason}`);
+    this.name = 'ApiError';
+    this.status = error?.response?.status;
+  }
+}
+
+export interface ApiClientOptions {
+  /** Bearer token for the signed-in user; forceRefresh is set after the API rejected the last one */
+  getAccessToken: (forceRefresh: boolean) => Promise<string>;
+}
+
+// Accepted by the local development backend only
+const TEST_USER_HEADERS = {
+  'x-test-user-id': '1',
+  'x-test-user-name': 'Desktop App User',
+  'x-test-user-is-admin': 'true'
+};
+
+type AuthenticatedRequestConfig = InternalAxiosRequestConfig & { tokenRefreshed?: boolean };
+
+/**
+ * Typed access to the BrokerNet API. Requests carry the signed-in user's
+ * bearer token; a 401 is retried once with a fresh token, after which
+ * 'auth-required' is emitted so the user can sign in again.
+ */
+export class ApiClient extends EventEmitter {
+  private getAccessToken: (forceRefresh: boolean) => Promise<string>;
   private client = axios.create({
     timeout: 30000,
     headers: {
-      'Content-Type': 'application/json',
-      'x-test-user-id': '1',
-      'x-test-user-name': 'Desktop App User',
-      'x-test-user-is-admin': 'true'
+      'Content-Type': 'application/json'
     }
   });
 
+  constructor(options: ApiClientOptions) {
+    super();
+    this.getAccessToken = options.getAccessToken;
+
+    this.client.interceptors.request.use(async (config: AuthenticatedRequestConfig) => {
+      const local = isLocalEnvironment(this.getBaseUrl(config.url));
+      try {
+        config.headers.set('Authorization', `Bearer ${await this.getAccessToken(config.tokenRefreshed === true)}`);
+      } catch (error) {
+        // The local backend can identify the caller from test headers instead
+        if (!local) throw error;
+      }
+      if (local) {
+        config.headers.set(TEST_USER_HEADERS);
+      }
+      return config;
+    });
+
+    this.client.interceptors.response.use(undefined, async (error) => {
+      const config: AuthenticatedRequestConfig | undefined = error.config;
+      if (error.response?.status !== 401 || !config) {
+        throw error;
+      }
+
+      if (!config.tokenRefreshed) {
+        console.log('[APICLIENT] API rejected the access token, retrying with a fresh one');
+        config.tokenRefreshed = true;
+        return this.client.request(config);
+      }
+
+      console.warn('[APICLIENT] API rejected a freshly issued token - sign-in required');
+      this.emit('auth-required');
+      throw error;
+    });
+  }
+
+  private getBaseUrl(url?: string): string {
+    try {
+      return url ? new URL(url).origin : '';
+    } catch {
+      return '';
+    }
+  }
+
   private getMimeType(filePath: string): string {
     const ext = filePath.split('.').pop()?.toLowerCase();
     const mimeTypes: { [key: string]: string } = {
@@ -56,6 +152,20 @@ export class ApiClient {
     return mimeTypes[ext || ''] || 'application/octet-stream';
   }
 
+  /**
+   * Whether the API at the given base URL answers its health check
+   */
+  public async checkHealth(apiBaseUrl: string): Promise<boolean> {
+    try {
+      // Deliberately unauthenticated so environments can be tested before signing in
+      const response = await axios.get(`${apiBaseUrl}/api/health`, { timeout: 10000 });
+      return response.status >= 200 && response.status < 300;
+    } catch (error: any) {
+      console.warn('[APICLIENT] Health check failed for', apiBaseUrl, '-', error.message);
+      return false;
+    }
+  }
+
   public async getTags(apiBaseUrl: string): Promise<FileTag[]> {
     try {
       console.log('[APICLIENT] Fetching tags from:', `${apiBaseUrl}/api/file-tags`);
@@ -68,7 +178,7 @@ export class ApiClient {
       return response.data;
     } catch (error) {
       console.error('[APICLIENT] Error fetching tags:', error);
-      return [];
+      throw new ApiError('Fetching tags', error);
     }
   }
 
@@ -101,8 +211,57 @@ export class ApiClient {
 
       return categoriesWithTags;
     } catch (error) {
+      // Rethrow so callers can tell an outage from an empty list
       console.error('[APICLIENT] Error fetching tag categories:', error);
-      return [];
+      throw new ApiError('Fetching tag categories', error);
+    }
+  }
+
+  public async createFileTagAssociations(
+    apiBaseUrl: string,
+    associations: FileTagAssociationRequest[]
+  ): Promise<FileTagAssociation[]> {
+    try {
+      console.log('[APICLIENT] Creating', associations.length, 'tag associations');
+
+      const response: AxiosResponse<FileTagAssociation[]> = await this.client.post(
+        `${apiBaseUrl}/api/file-tags/associations`,
+        { associations }
+      );
+
+      console.log('[APICLIENT] Tag associations created:', response.data);
+      return response.data;
+    } catch (error) {
+      console.error('[APICLIENT] Error creating tag associations:', error);
+      throw new ApiError('Creating tag associations', error);
+    }
+  }
+
+  public async getFileTagAssociations(apiBaseUrl: string, fileId: string): Promise<FileTagAssociation[]> {
+    try {
+      console.log('[APICLIENT] Fetching tag associations for file:', fileId);
+
+      const response: AxiosResponse<FileTagAssociation[]> = await this.client.get(
+        `${apiBaseUrl}/api/file-tags/associations`,
+        { params: { file_id: fileId } }
+      );
+
+      console.log('[APICLIENT] Retrieved', response.data.length, 'tag associations');
+      return response.data;
+    } catch (error) {
+      console.error('[APICLIENT] Error fetching tag associations:', error);
+      throw new ApiError('Fetching tag associations', error);
+    }
+  }
+
+  public async deleteFileTagAssociation(apiBaseUrl: string, associationId: number): Promise<void> {
+    try {
+      console.log('[APICLIENT] Deleting tag association:', associationId);
+      await this.client.delete(`${apiBaseUrl}/api/file-tags/associations/${associationId}`);
+      console.log('[APICLIENT] Tag association deleted:', associationId);
+    } catch (error) {
+      console.error('[APICLIENT] Error deleting tag association:', error);
+      throw new ApiError('Deleting tag association', error);
     }
   }
 
@@ -163,7 +322,7 @@ export class ApiClient {
       return response.data;
     } catch (error) {
       console.error('[APICLIENT] Error uploading file:', error);
-      throw new Error('Failed to upload file');
+      throw new ApiError('Uploading file', error);
     }
   }
 }
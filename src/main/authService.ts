@@ -1,5 +1,8 @@
-import { PublicClientApplication, AccountInfo, AuthenticationResult } from '@azure/msal-node';
+import { PublicClientApplication, AccountInfo, AuthenticationResult, InteractionRequiredAuthError } from '@azure/msal-node';
 import { EventEmitter } from 'events';
+import { GraphClient, ThrottleState } from './graphClient';
+import { TokenCacheStore } from './tokenCacheStore';
+import { CancellableLoopbackClient } from './loopbackClient';
 
 export interface AuthConfig {
   clientId: string;
@@ -16,11 +19,89 @@ export interface UserInfo {
   expiresOn: Date;
 }
 
+/** A signed-in account as shown in the account switcher */
+export interface AccountSummary {
+  id: string;
+  name: string;
+  email: string;
+  isActive: boolean;
+  /** Silent token refresh failed and the account has to sign in again */
+  needsSignIn: boolean;
+  /** The account has consented to reach SharePoint document libraries */
+  hasSharePointAccess: boolean;
+}
+
+export type SignInMethod = 'auto' | 'browser' | 'device-code';
+
+const GRAPH_SCOPES = [
+  'https://graph.microsoft.com/Files.ReadWrite',
+  'https://graph.microsoft.com/User.Read',
+  'https://graph.microsoft.com/offline_access'
+];
+// Reach SharePoint document libraries as well as OneDrive. Asked for only when
+// the user looks for a library, so existing sign-ins keep working without new consent.
+const SHAREPOINT_SCOPES = [
+  ...GRAPH_SCOPES,
+  'https://graph.microsoft.com/Files.ReadWrite.All',
+  'https://graph.microsoft.com/Sites.Read.All'
+];
+const INTERACTIVE_SIGN_IN_TIMEOUT_MS = 5 * 60 * 1000;
+// Tokens are refreshed in the background this long before they expire
+const REFRESH_BEFORE_EXPIRY_MS = 5 * 60 * 1000;
+const MIN_REFRESH_DELAY_MS = 30 * 1000;
+// A background refresh that failed for a reason other than needing sign-in, e.g. no network
+const REFRESH_RETRY_DELAY_MS = 60 * 1000;
+// Browser sign-in errors that mean the user gave up, so no fallback is offered
+const USER_CANCELLED_ERROR_CODES = ['access_denied', 'user_cancelled'];
+
+/**
+ * Thrown when an account's session can only be renewed by signing in again
+ */
+export class AuthenticationRequiredError extends Error {
+  accountId: string;
+
+  constructor(accountId: string) {
+    super('Your Microsoft sign-in has expired. Sign in again to continue.');
+    this.name = 'AuthenticationRequiredError';
+    this.accountId = accountId;
+  }
+}
+
+class SignInTimeoutError extends Error {
+  constructor() {
+    super('Sign-in was not completed in the browser in time');
+    this.name = 'SignInTimeoutError';
+  }
+}
+
+/**
+ * Signs users in with MSAL. Several Microsoft accounts can be signed in at once;
+ * one is active and used by default, the others stay available for uploads
+ * queued under them. Emits 'graph-throttled' with the account id and a
+ * ThrottleState when any account's Graph client is throttled.
+ *
+ * Tokens are refreshed silently shortly before they expire. When that fails
+ * because the account has to sign in again, 'session-expired' is emitted with
+ * its AccountSummary and its token requests throw AuthenticationRequiredError
+ * until it does.
+ */
 export class AuthService extends EventEmitter {
   private msalInstance: PublicClientApplication;
   private config: AuthConfig;
-  private currentUser: UserInfo | null = null;
+  /** Signed-in accounts by MSAL homeAccountId */
+  private users: Map<string, UserInfo> = new Map();
+  private activeAccountId: string | null = null;
   private tokenCache: Map<string, string> = new Map();
+  private graphClients: Map<string, GraphClient> = new Map();
+  private refreshTimers: Map<string, NodeJS.Timeout> = new Map();
+  private refreshes: Map<string, Promise<void>> = new Map();
+  /** Accounts whose session has expired and that must sign in again */
+  private expiredSessions: Set<string> = new Set();
+  /** Accounts signed out this session, as opposed to not yet restored */
+  private signedOutAccounts: Set<string> = new Set();
+  /** Accounts whose Graph tokens carry SHAREPOINT_SCOPES */
+  private sharePointAccounts: Set<string> = new Set();
+  private tokenCacheStore = new TokenCacheStore();
 
   constructor(config: AuthConfig) {
     super();
@@ -32,143 +113,239 @@ export class AuthService extends EventEmitter {
         authority: config.authority,
       },
       cache: {
-        cachePlugin: {
-          beforeCacheAccess: async (cacheContext) => {
-            // Load token cache from file system
-            try {
-              const fs = require('fs');
-              const path = require('path');
-              const cachePath = path.join(require('os').homedir(), '.blinkapp', 'token-cache.json');
-              if (fs.existsSync(cachePath)) {
-                const cacheData = fs.readFileSync(cachePath, 'utf-8');
-                (cacheContext as any).tokenCache = JSON.parse(cacheData);
-              }
-            } catch (error) {
-              console.log('[AUTH:SERVICE] No existing token cache found');
-            }
-          },
-          afterCacheAccess: async (cacheContext) => {
-            // Save token cache to file system
-            try {
-              const fs = require('fs');
-              const path = require('path');
-              const os = require('os');
-              const cacheDir = path.join(os.homedir(), '.blinkapp');
-              const cachePath = path.join(cacheDir, 'token-cache.json');
-              
-              if (!fs.existsSync(cacheDir)) {
-                fs.mkdirSync(cacheDir, { recursive: true });
-              }
-              
-              if ((cacheContext as any).cacheHasChanged) {
-                fs.writeFileSync(cachePath, JSON.stringify((cacheContext as any).tokenCache, null, 2));
-              }
-            } catch (error) {
-              console.error('[AUTH:SERVICE] Error saving token cache:', error);
-            }
-          }
-        }
+        // Encrypted at rest and kept in userData
+        cachePlugin: this.tokenCacheStore
       }
     });
   }
 
+  /**
+   * Get the Graph HTTP client that signs requests as the given account, or as
+   * the active account when none is given
+   */
+  getGraphClient(accountId?: string): GraphClient {
+    const id = accountId || this.activeAccountId || '';
+    let client = this.graphClients.get(id);
+    if (!client) {
+      client = new GraphClient(() => this.getAccessToken(id));
+      client.on('throttled', (state: ThrottleState) => this.emit('graph-throttled', id, state));
+      this.graphClients.set(id, client);
+    }
+    return client;
+  }
+
   /**
    * Check if user is already authenticated
    */
   isAuthenticated(): boolean {
-    return this.currentUser !== null && this.isTokenValid();
+    const user = this.getCurrentUser();
+    return user !== null && this.isTokenValid(user);
   }
 
   /**
-   * Get current user info
+   * Get the active account's user info
    */
   getCurrentUser(): UserInfo | null {
-    return this.currentUser;
+    return this.activeAccountId ? this.users.get(this.activeAccountId) || null : null;
+  }
+
+  /**
+   * Get a signed-in account's user info
+   */
+  getUser(accountId: string): UserInfo | null {
+    return this.users.get(accountId) || null;
+  }
+
+  /**
+   * List the signed-in accounts, marking the active one
+   */
+  getAccounts(): AccountSummary[] {
+    return Array.from(this.users.values()).map(user => ({
+      id: user.id,
+      name: user.name,
+      email: user.email,
+      isActive: user.id === this.activeAccountId,
+      needsSignIn: this.expiredSessions.has(user.id),
+      hasSharePointAccess: this.sharePointAccounts.has(user.id)
+    }));
+  }
+
+  /**
+   * Whether an account's session has expired and it has to sign in again
+   */
+  needsSignIn(accountId: string): boolean {
+    return this.expiredSessions.has(accountId);
+  }
+
+  /**
+   * Whether an account was signed out on purpose and has not signed in since
+   */
+  wasSignedOut(accountId: string): boolean {
+    return this.signedOutAccounts.has(accountId);
+  }
+
+  /**
+   * Whether an account's Graph tokens can reach SharePoint document libraries
+   */
+  hasSharePointAccess(accountId: string): boolean {
+    return this.sharePointAccounts.has(accountId);
+  }
+
+  /**
+   * Extend an account's Graph access to SharePoint document libraries, or the
+   * active account's when none is given. Silent when the account consented
+   * before; otherwise the browser asks the user to consent.
+   */
+  async requestSharePointAccess(accountId?: string): Promise<void> {
+    const user = this.users.get(accountId || this.activeAccountId || '');
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+    if (this.sharePointAccounts.has(user.id)) return;
+
+    const account = await this.findCachedAccount(user.id);
+    if (!account) {
+      this.markSessionExpired(user);
+      throw new AuthenticationRequiredError(user.id);
+    }
+    if (await this.acquireSharePointTokenSilently(user, account)) return;
+
+    console.log('[AUTH:SERVICE] Asking for SharePoint consent for:', user.email || user.name);
+    const response = await this.acquireTokenInteractive(SHAREPOINT_SCOPES, account.username);
+    if (response.account?.homeAccountId !== user.id) {
+      throw new Error(`Sign in as ${user.email || user.name} to give it access to SharePoint`);
+    }
+    this.applySharePointToken(user, response);
   }
 
   /**
-   * Check if current token is still valid
+   * Make another signed-in account the active one
    */
-  private isTokenValid(): boolean {
-    if (!this.currentUser) return false;
-    return new Date() < this.currentUser.expiresOn;
+  switchAccount(accountId: string): UserInfo {
+    const user = this.users.get(accountId);
+    if (!user) {
+      throw new Error('That account is not signed in');
+    }
+
+    this.activeAccountId = accountId;
+    console.log('[AUTH:SERVICE] Switched to account:', user.email || user.name);
+    this.emit('userChanged', user);
+    return user;
   }
 
   /**
-   * Get access token for Microsoft Graph API
+   * Check if a user's token is still valid
    */
-  async getAccessToken(): Promise<string> {
-    if (!this.currentUser) {
+  private isTokenValid(user: UserInfo): boolean {
+    return new Date() < user.expiresOn;
+  }
+
+  /**
+   * Get access token for Microsoft Graph API, for the given account or the
+   * active one. A token about to expire is refreshed first; if that fails for
+   * any reason but needing sign-in, the old token is used while it lasts.
+   */
+  async getAccessToken(accountId?: string): Promise<string> {
+    const user = this.users.get(accountId || this.activeAccountId || '');
+    if (!user) {
       throw new Error('User not authenticated');
     }
+    if (this.expiredSessions.has(user.id)) {
+      throw new AuthenticationRequiredError(user.id);
+    }
 
-    if (this.isTokenValid()) {
-      return this.currentUser.accessToken;
+    if (user.expiresOn.getTime() - Date.now() > REFRESH_BEFORE_EXPIRY_MS) {
+      return user.accessToken;
     }
 
     // Try to refresh token
     try {
-      await this.refreshToken();
-      return this.currentUser!.accessToken;
+      await this.refreshToken(user);
+      return user.accessToken;
     } catch (error) {
-      console.error('[AUTH:SERVICE] Token refresh failed:', error);
-      throw new Error('Token expired and refresh failed. Please re-authenticate.');
+      if (error instanceof AuthenticationRequiredError) {
+        throw error;
+      }
+      if (this.isTokenValid(user)) {
+        return user.accessToken;
+      }
+      throw new Error(`Could not refresh your Microsoft sign-in: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Scope used for the BrokerNet API when none is configured: the API exposed
+   * by this app's own Azure AD registration
+   */
+  getDefaultApiScope(): string {
+    return `api://${this.config.clientId}/.default`;
+  }
+
+  /**
+   * Get an access token for another API registered in Azure AD, such as the
+   * BrokerNet backend. MSAL serves it from its cache until it is about to expire;
+   * forceRefresh asks Azure AD for a new one, e.g. after the API rejected it.
+   */
+  async getApiAccessToken(scope: string, forceRefresh: boolean = false): Promise<string> {
+    const user = this.getCurrentUser();
+    if (!user) {
+      throw new Error('Sign in with your Microsoft account to use the BrokerNet API');
+    }
+
+    const account = await this.findCachedAccount(user.id);
+    if (!account) {
+      throw new Error('Account not found for API token request');
+    }
+
+    try {
+      const response = await this.msalInstance.acquireTokenSilent({
+        scopes: [scope],
+        account,
+        forceRefresh
+      });
+      return response.accessToken;
+    } catch (error) {
+      if (error instanceof InteractionRequiredAuthError) {
+        this.markSessionExpired(user);
+        throw new AuthenticationRequiredError(user.id);
+      }
+      throw error;
     }
   }
 
   /**
-   * Authenticate user with Microsoft account
+   * Authenticate user with Microsoft account. 'auto' signs in through the
+   * browser and falls back to a device code if the browser flow cannot run.
+   * The account signed in becomes the active one; accounts already signed in
+   * stay signed in.
    */
-  async authenticate(): Promise<UserInfo> {
+  async authenticate(method: SignInMethod = 'auto'): Promise<UserInfo> {
     try {
-      console.log('[AUTH:SERVICE] Starting authentication...');
-      
-      // Use device code flow for desktop apps (no redirect URI needed)
-      const deviceCodeRequest = {
-        scopes: [
-          'https://graph.microsoft.com/Files.ReadWrite',
-          'https://graph.microsoft.com/User.Read',
-          'https://graph.microsoft.com/offline_access'
-        ],
-        deviceCodeCallback: async (response: any) => {
-          console.log('[AUTH:SERVICE] Device code authentication required:');
-          console.log('[AUTH:SERVICE] Please go to:', response.verificationUri);
-          console.log('[AUTH:SERVICE] Enter code:', response.userCode);
-          
-          // Automatically open the authentication page in the user's browser
-          const { shell } = require('electron');
-          await shell.openExternal(response.verificationUri);
-          
-          // Show a user-friendly dialog with the code
-          const { dialog, clipboard } = require('electron');
-          
-          // Copy the code to clipboard automatically
-          clipboard.writeText(response.userCode);
-          
-          const result = await dialog.showMessageBox({
-            type: 'info',
-            title: 'BrokerNet Desktop Authentication',
-            message: 'Authentication page opened in your browser',
-            detail: `Please enter this code in the browser:\n\n${response.userCode}\n\n✅ Code copied to clipboard automatically!\n\nThen click OK to continue.`,
-            buttons: ['OK', 'Cancel'],
-            defaultId: 0,
-            cancelId: 1
-          });
-          
-          if (result.response === 1) {
-            throw new Error('Authentication cancelled by user');
+      console.log('[AUTH:SERVICE] Starting authentication using:', method);
+
+      let response: AuthenticationResult | null;
+      if (method === 'device-code') {
+        response = await this.acquireTokenByDeviceCode();
+      } else {
+        try {
+          response = await this.acquireTokenInteractive();
+        } catch (interactiveError: any) {
+          const cancelled = interactiveError instanceof SignInTimeoutError
+            || USER_CANCELLED_ERROR_CODES.includes(interactiveError?.errorCode);
+          if (method === 'browser' || cancelled) {
+            throw interactiveError;
           }
+          console.warn('[AUTH:SERVICE] Browser sign-in failed, falling back to device code:', interactiveError?.message || interactiveError);
+          response = await this.acquireTokenByDeviceCode();
         }
-      };
-
-      const response: AuthenticationResult | null = await this.msalInstance.acquireTokenByDeviceCode(deviceCodeRequest);
+      }
       
       if (!response) {
         throw new Error('Authentication failed - no response received');
       }
       
       if (response.account) {
-        this.currentUser = {
+        const user: UserInfo = {
           id: response.account.homeAccountId,
           name: response.account.name || 'Unknown User',
           email: response.account.username || '',
@@ -176,15 +353,24 @@ export class AuthService extends EventEmitter {
           refreshToken: undefined, // MSAL doesn't provide refresh token in interactive flow
           expiresOn: response.expiresOn || new Date(Date.now() + 3600000) // 1 hour default
         };
+        this.users.set(user.id, user);
+        this.activeAccountId = user.id;
+        this.expiredSessions.delete(user.id);
+        this.signedOutAccounts.delete(user.id);
+        this.sharePointAccounts.delete(user.id);
+        this.scheduleRefresh(user);
+        // Signing in again keeps SharePoint access the account consented to before
+        await this.acquireSharePointTokenSilently(user, response.account);
 
         console.log('[AUTH:SERVICE] Authentication successful:', {
-          name: this.currentUser.name,
-          email: this.currentUser.email,
-          expiresOn: this.currentUser.expiresOn
+          name: user.name,
+          email: user.email,
+          expiresOn: user.expiresOn,
+          signedInAccounts: this.users.size
         });
 
-        this.emit('authenticated', this.currentUser);
-        return this.currentUser;
+        this.emit('authenticated', user);
+        return user;
       } else {
         throw new Error('No account information received from authentication');
       }
@@ -196,49 +382,201 @@ export class AuthService extends EventEmitter {
   }
 
   /**
-   * Refresh access token
+   * Authorization code flow with PKCE. MSAL opens the system browser and
+   * listens on a localhost port for the redirect carrying the code.
    */
-  private async refreshToken(): Promise<void> {
-    if (!this.currentUser) {
-      throw new Error('No user logged in');
+  private async acquireTokenInteractive(scopes: string[] = GRAPH_SCOPES, loginHint?: string): Promise<AuthenticationResult> {
+    const { shell } = require('electron');
+
+    // Stop listening for the browser's redirect if the user never finishes
+    const loopbackClient = new CancellableLoopbackClient();
+    const timer = setTimeout(() => loopbackClient.cancel(new SignInTimeoutError()), INTERACTIVE_SIGN_IN_TIMEOUT_MS);
+
+    try {
+      return await this.msalInstance.acquireTokenInteractive({
+        scopes,
+        // Let the user pick or add an account rather than reusing the last one,
+        // unless more access is being asked of a signed-in account
+        ...(loginHint ? { loginHint } : { prompt: 'select_account' }),
+        loopbackClient,
+        openBrowser: async (url: string) => {
+          console.log('[AUTH:SERVICE] Opening browser for sign-in');
+          await shell.openExternal(url);
+        },
+        successTemplate: '<h1>Signed in to BrokerNet Desktop</h1><p>You can close this window and return to the app.</p>',
+        errorTemplate: '<h1>Sign-in failed</h1><p>Return to BrokerNet Desktop and try again. Details: {{error}}</p>'
+      });
+    } finally {
+      clearTimeout(timer);
     }
+  }
+
+  /**
+   * Device code flow: the user enters a code on another page. Needs no
+   * redirect, but some tenants' conditional access policies block it.
+   */
+  private async acquireTokenByDeviceCode(): Promise<AuthenticationResult | null> {
+    const deviceCodeRequest = {
+      scopes: GRAPH_SCOPES,
+      deviceCodeCallback: async (response: any) => {
+        console.log('[AUTH:SERVICE] Device code authentication required:');
+        console.log('[AUTH:SERVICE] Please go to:', response.verificationUri);
+        console.log('[AUTH:SERVICE] Enter code:', response.userCode);
+        
+        // Automatically open the authentication page in the user's browser
+        const { shell } = require('electron');
+        await shell.openExternal(response.verificationUri);
+        
+        // Show a user-friendly dialog with the code
+        const { dialog, clipboard } = require('electron');
+        
+        // Copy the code to clipboard automatically
+        clipboard.writeText(response.userCode);
+        
+        const result = await dialog.showMessageBox({
+          type: 'info',
+          title: 'BrokerNet Desktop Authentication',
+          message: 'Authentication page opened in your browser',
+          detail: `Please enter this code in the browser:\n\n${response.userCode}\n\n✅ Code copied to clipboard automatically!\n\nThen click OK to continue.`,
+          buttons: ['OK', 'Cancel'],
+          defaultId: 0,
+          cancelId: 1
+        });
+        
+        if (result.response === 1) {
+          throw new Error('Authentication cancelled by user');
+        }
+      }
+    };
+
+    return this.msalInstance.acquireTokenByDeviceCode(deviceCodeRequest);
+  }
+
+  /**
+   * Refresh a user's access token. Refreshes requested while one is running
+   * share it. Throws AuthenticationRequiredError, and marks the session
+   * expired, when only signing in again would help.
+   */
+  private refreshToken(user: UserInfo): Promise<void> {
+    const pending = this.refreshes.get(user.id);
+    if (pending) return pending;
 
+    const refresh = this.runRefresh(user).finally(() => this.refreshes.delete(user.id));
+    this.refreshes.set(user.id, refresh);
+    return refresh;
+  }
+
+  private async runRefresh(user: UserInfo): Promise<void> {
     try {
-      console.log('[AUTH:SERVICE] Refreshing token...');
+      console.log('[AUTH:SERVICE] Refreshing token for:', user.email || user.name);
       
       // Get account info for silent request
-      const accounts = await this.msalInstance.getAllAccounts();
-      const account = accounts.find((acc: any) => acc.homeAccountId === this.currentUser!.id);
+      const account = await this.findCachedAccount(user.id);
       
       if (!account) {
-        throw new Error('Account not found for token refresh');
+        // Removed from the token cache, so only signing in again brings it back
+        this.markSessionExpired(user);
+        throw new AuthenticationRequiredError(user.id);
       }
       
       const refreshRequest = {
-        scopes: [
-          'https://graph.microsoft.com/Files.ReadWrite',
-          'https://graph.microsoft.com/User.Read',
-          'https://graph.microsoft.com/offline_access'
-        ],
-        account: account
+        scopes: this.sharePointAccounts.has(user.id) ? SHAREPOINT_SCOPES : GRAPH_SCOPES,
+        account: account,
+        // MSAL would otherwise return the cached token until it is nearly expired
+        forceRefresh: true
       };
 
       const response: AuthenticationResult = await this.msalInstance.acquireTokenSilent(refreshRequest);
       
-      this.currentUser.accessToken = response.accessToken;
-      this.currentUser.expiresOn = response.expiresOn || new Date(Date.now() + 3600000);
+      user.accessToken = response.accessToken;
+      user.expiresOn = response.expiresOn || new Date(Date.now() + 3600000);
+      this.scheduleRefresh(user);
 
-      console.log('[AUTH:SERVICE] Token refreshed successfully');
+      console.log('[AUTH:SERVICE] Token refreshed successfully, expires:', user.expiresOn);
     } catch (error) {
       console.error('[AUTH:SERVICE] Token refresh failed:', error);
+      if (error instanceof AuthenticationRequiredError) {
+        throw error;
+      }
+      if (error instanceof InteractionRequiredAuthError) {
+        this.markSessionExpired(user);
+        throw new AuthenticationRequiredError(user.id);
+      }
+      this.scheduleRefresh(user, REFRESH_RETRY_DELAY_MS);
       throw error;
     }
   }
 
   /**
-   * Check for existing authentication and auto-login if valid
+   * Refresh a user's token in the background shortly before it expires, or
+   * after delayMs when given
+   */
+  private scheduleRefresh(user: UserInfo, delayMs?: number): void {
+    this.cancelRefresh(user.id);
+
+    const delay = delayMs ?? Math.max(user.expiresOn.getTime() - Date.now() - REFRESH_BEFORE_EXPIRY_MS, MIN_REFRESH_DELAY_MS);
+    const timer = setTimeout(() => {
+      this.refreshTimers.delete(user.id);
+      if (this.users.get(user.id) !== user || this.expiredSessions.has(user.id)) return;
+      this.refreshToken(user).catch(() => {
+        // Logged by runRefresh, which also reschedules or reports the expiry
+      });
+    }, delay);
+    this.refreshTimers.set(user.id, timer);
+  }
+
+  private cancelRefresh(accountId: string): void {
+    const timer = this.refreshTimers.get(accountId);
+    if (timer) {
+      clearTimeout(timer);
+      this.refreshTimers.delete(accountId);
+    }
+  }
+
+  private markSessionExpired(user: UserInfo): void {
+    this.cancelRefresh(user.id);
+    if (this.expiredSessions.has(user.id)) return;
+
+    this.expiredSessions.add(user.id);
+    console.warn('[AUTH:SERVICE] Session expired, sign-in required for:', user.email || user.name);
+    this.emit('session-expired', this.getAccounts().find(account => account.id === user.id));
+  }
+
+  /**
+   * Get a token with SHAREPOINT_SCOPES without prompting. Returns false when
+   * the account has not consented to them yet.
+   */
+  private async acquireSharePointTokenSilently(user: UserInfo, account: AccountInfo): Promise<boolean> {
+    try {
+      const response = await this.msalInstance.acquireTokenSilent({ scopes: SHAREPOINT_SCOPES, account });
+      this.applySharePointToken(user, response);
+      return true;
+    } catch (error) {
+      console.log('[AUTH:SERVICE] No SharePoint access without consent for:', user.email || user.name, error instanceof Error ? error.message : String(error));
+      return false;
+    }
+  }
+
+  private applySharePointToken(user: UserInfo, response: AuthenticationResult): void {
+    user.accessToken = response.accessToken;
+    user.expiresOn = response.expiresOn || new Date(Date.now() + 3600000);
+    this.sharePointAccounts.add(user.id);
+    this.scheduleRefresh(user);
+    console.log('[AUTH:SERVICE] SharePoint access granted for:', user.email || user.name);
+  }
+
+  private async findCachedAccount(accountId: string): Promise<AccountInfo | null> {
+    const accounts = await this.msalInstance.getAllAccounts();
+    return accounts.find(account => account.homeAccountId === accountId) || null;
+  }
+
+  /**
+   * Check for existing authentication and auto-login if valid. Every cached
+   * account that can still get a token silently is signed back in; the
+   * preferred account is made active if it is one of them. Cached accounts
+   * that cannot are kept as needing sign-in and reported with 'session-expired'.
    */
-  async checkExistingAuth(): Promise<UserInfo | null> {
+  async checkExistingAuth(preferredAccountId?: string): Promise<UserInfo | null> {
     try {
       console.log('[AUTH:SERVICE] Checking for existing authentication...');
       
@@ -250,35 +588,55 @@ export class AuthService extends EventEmitter {
 
       console.log('[AUTH:SERVICE] Found cached accounts:', accounts.length);
       
-      // Try to get a fresh token silently
-      const account = accounts[0];
-      const silentRequest = {
-        scopes: [
-          'https://graph.microsoft.com/Files.ReadWrite',
-          'https://graph.microsoft.com/User.Read',
-          'https://graph.microsoft.com/offline_access'
-        ],
-        account: account,
-      };
+      for (const account of accounts) {
+        try {
+          // Try to get a fresh token silently
+          const response = await this.msalInstance.acquireTokenSilent({
+            scopes: GRAPH_SCOPES,
+            account
+          });
 
-      const response = await this.msalInstance.acquireTokenSilent(silentRequest);
-      
-      if (response) {
-        this.currentUser = {
-          id: response.account?.homeAccountId || '',
-          name: response.account?.name || '',
-          email: response.account?.username || '',
-          accessToken: response.accessToken,
-          refreshToken: response.account?.idToken,
-          expiresOn: new Date(response.expiresOn || Date.now() + 3600000)
-        };
-        
-        console.log('[AUTH:SERVICE] Auto-login successful for user:', this.currentUser.name);
-        this.emit('userChanged', this.currentUser);
-        return this.currentUser;
+          const user: UserInfo = {
+            id: account.homeAccountId,
+            name: response.account?.name || account.name || '',
+            email: response.account?.username || account.username || '',
+            accessToken: response.accessToken,
+            refreshToken: response.account?.idToken,
+            expiresOn: new Date(response.expiresOn || Date.now() + 3600000)
+          };
+          this.users.set(user.id, user);
+          this.scheduleRefresh(user);
+          // Accounts that consented to SharePoint before keep their libraries
+          await this.acquireSharePointTokenSilently(user, account);
+        } catch (error) {
+          console.log('[AUTH:SERVICE] Cached account needs to sign in again:', account.username, error instanceof Error ? error.message : String(error));
+          // Keep the account so uploads queued under it wait for it to sign in again
+          const user: UserInfo = {
+            id: account.homeAccountId,
+            name: account.name || '',
+            email: account.username || '',
+            accessToken: '',
+            expiresOn: new Date(0)
+          };
+          this.users.set(user.id, user);
+          this.markSessionExpired(user);
+        }
       }
-      
-      return null;
+
+      const signedInIds = Array.from(this.users.keys()).filter(id => !this.expiredSessions.has(id));
+      if (signedInIds.length === 0) {
+        console.log('[AUTH:SERVICE] No valid cached authentication found');
+        return null;
+      }
+
+      this.activeAccountId = preferredAccountId && signedInIds.includes(preferredAccountId)
+        ? preferredAccountId
+        : signedInIds[0];
+      const user = this.getCurrentUser()!;
+
+      console.log('[AUTH:SERVICE] Auto-login successful for user:', user.name, '- signed-in accounts:', signedInIds.length);
+      this.emit('userChanged', user);
+      return user;
     } catch (error) {
       console.log('[AUTH:SERVICE] No valid cached authentication found:', error instanceof Error ? error.message : String(error));
       return null;
@@ -286,66 +644,43 @@ export class AuthService extends EventEmitter {
   }
 
   /**
-   * Sign out user
+   * Sign out one account, or every account when none is given, removing it
+   * from the token cache. Once no account is left the persisted cache is
+   * deleted so the next launch does not sign anyone straight back in. If the
+   * active account is signed out another signed-in account becomes active.
    */
-  async signOut(): Promise<void> {
+  async signOut(accountId?: string): Promise<void> {
     try {
-      if (this.currentUser) {
-        const accounts = await this.msalInstance.getAllAccounts();
-        const account = accounts.find((acc: any) => acc.homeAccountId === this.currentUser!.id);
-        if (account) {
-          await this.msalInstance.getTokenCache().removeAccount(account);
+      const tokenCache = this.msalInstance.getTokenCache();
+      for (const account of await tokenCache.getAllAccounts()) {
+        if (!accountId || account.homeAccountId === accountId) {
+          await tokenCache.removeAccount(account);
         }
       }
-      
-      this.currentUser = null;
-      this.tokenCache.clear();
-      
-      console.log('[AUTH:SERVICE] User signed out successfully');
-      this.emit('signedOut');
-    } catch (error) {
-      console.error('[AUTH:SERVICE] Sign out failed:', error);
-      throw error;
-    }
-  }
 
-  /**
-   * Get user's OneDrive drives
-   */
-  async getOneDriveDrives(): Promise<any[]> {
-    const accessToken = await this.getAccessToken();
-    
-    try {
-      const axios = require('axios');
-      
-      // Try to get drives using /me/drives endpoint
-      let response;
-      try {
-        response = await axios.get('https://graph.microsoft.com/v1.0/me/drives', {
-          headers: {
-            'Authorization': `Bearer ${accessToken}`,
-            'Content-Type': 'application/json'
-          }
-        });
-      } catch (meError: any) {
-        console.log('[AUTH:SERVICE] /me/drives failed, trying /drives endpoint...');
-        
-        // Fallback to /drives endpoint
-        response = await axios.get('https://graph.microsoft.com/v1.0/drives', {
-          headers: {
-            'Authorization': `Bearer ${accessToken}`,
-            'Content-Type': 'application/json'
-          }
-        });
+      const signedOutIds = accountId ? [accountId] : Array.from(this.users.keys());
+      for (const id of signedOutIds) {
+        this.cancelRefresh(id);
+        this.expiredSessions.delete(id);
+        this.sharePointAccounts.delete(id);
+        this.signedOutAccounts.add(id);
+        this.users.delete(id);
+        this.graphClients.get(id)?.removeAllListeners();
+        this.graphClients.delete(id);
+      }
+      if (!this.activeAccountId || !this.users.has(this.activeAccountId)) {
+        this.activeAccountId = this.users.size > 0 ? this.users.keys().next().value! : null;
       }
 
-      const drives = response.data.value || [];
-      console.log('[AUTH:SERVICE] Found OneDrive drives:', drives.length);
-      console.log('[AUTH:SERVICE] Drive details:', JSON.stringify(drives, null, 2));
+      if (this.users.size === 0) {
+        this.tokenCache.clear();
+        await this.tokenCacheStore.clear();
+      }
       
-      return drives;
+      console.log('[AUTH:SERVICE] Signed out', signedOutIds.length, 'account(s),', this.users.size, 'still signed in');
+      this.emit('signedOut', accountId);
     } catch (error) {
-      console.error('[AUTH:SERVICE] Error getting OneDrive drives:', error);
+      console.error('[AUTH:SERVICE] Sign out failed:', error);
       throw error;
     }
   }
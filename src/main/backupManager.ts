@@ -0,0 +1,170 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DatabaseManager } from './databaseManager';
+import { DEFAULT_BACKUP_RETENTION } from '../config/defaults';
+
+export interface BackupManagerOptions {
+  databaseManager: DatabaseManager;
+  /** Number of backups to keep; the default is used when unset */
+  getRetentionCount: () => Promise<number | undefined>;
+}
+
+export interface DatabaseBackup {
+  fileName: string;
+  filePath: string;
+  createdAt: string;
+  sizeBytes: number;
+}
+
+const BACKUP_INTERVAL_MS = 6 * 60 * 60 * 1000;
+const BACKUP_FILE_PREFIX = 'blinkapp-desktop-';
+
+/**
+ * Takes periodic online backups of the local database and rotates old ones out
+ */
+export class BackupManager {
+  private databaseManager: DatabaseManager;
+  private getRetentionCount: () => Promise<number | undefined>;
+  private backupTimer: NodeJS.Timeout | null = null;
+  private backupInProgress: Promise<DatabaseBackup> | null = null;
+
+  constructor(options: BackupManagerOptions) {
+    this.databaseManager = options.databaseManager;
+    this.getRetentionCount = options.getRetentionCount;
+  }
+
+  /**
+   * Back up now if the last backup is older than the interval, then on a timer
+   */
+  start(): void {
+    if (this.backupTimer) return;
+
+    console.log('[BACKUP] Starting scheduled backups');
+    const latest = this.listBackups()[0];
+    if (!latest || Date.now() - new Date(latest.createdAt).getTime() >= BACKUP_INTERVAL_MS) {
+      this.runScheduledBackup();
+    }
+
+    this.backupTimer = setInterval(() => this.runScheduledBackup(), BACKUP_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.backupTimer) {
+      clearInterval(this.backupTimer);
+      this.backupTimer = null;
+    }
+  }
+
+  /**
+   * Write a new backup and delete the oldest beyond the retention count
+   */
+  async createBackup(): Promise<DatabaseBackup> {
+    // Backups requested while one is running share its result
+    if (this.backupInProgress) {
+      return this.backupInProgress;
+    }
+
+    this.backupInProgress = this.writeBackup();
+    try {
+      return await this.backupInProgress;
+    } finally {
+      this.backupInProgress = null;
+    }
+  }
+
+  /**
+   * Backups in the backup folder, newest first
+   */
+  listBackups(): DatabaseBackup[] {
+    const directory = this.databaseManager.getBackupDirectory();
+    try {
+      if (!fs.existsSync(directory)) return [];
+
+      return fs.readdirSync(directory)
+        .filter(name => name.startsWith(BACKUP_FILE_PREFIX) && name.endsWith('.db'))
+        .map(name => {
+          const filePath = path.join(directory, name);
+          const stats = fs.statSync(filePath);
+          return {
+            fileName: name,
+            filePath,
+            createdAt: stats.mtime.toISOString(),
+            sizeBytes: stats.size
+          };
+        })
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    } catch (error) {
+      console.error('[BACKUP] Error listing backups:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Resolve a backup by file name, refusing anything outside the backup folder
+   */
+  getBackupPath(fileName: string): string {
+    const backup = this.listBackups().find(candidate => candidate.fileName === fileName);
+    if (!backup) {
+      throw new Error(`Backup not found: ${fileName}`);
+    }
+    return backup.filePath;
+  }
+
+  private async runScheduledBackup(): Promise<void> {
+    if (!this.databaseManager.isAvailable()) {
+      console.log('[BACKUP] Skipping scheduled backup - database unavailable');
+      return;
+    }
+
+    try {
+      await this.createBackup();
+    } catch (error) {
+      console.error('[BACKUP] Scheduled backup failed:', error);
+    }
+  }
+
+  private async writeBackup(): Promise<DatabaseBackup> {
+    const directory = this.databaseManager.getBackupDirectory();
+    await fs.promises.mkdir(directory, { recursive: true });
+
+    const fileName = `${BACKUP_FILE_PREFIX}${new Date().toISOString().replace(/[:.]/g, '-')}.db`;
+    const filePath = path.join(directory, fileName);
+    // Write under a temporary name so a half-written file is never listed as a backup
+    const partialPath = `${filePath}.partial`;
+
+    console.log('[BACKUP] Backing up database to:', filePath);
+    try {
+      await this.databaseManager.backup(partialPath);
+      await fs.promises.rename(partialPath, filePath);
+    } catch (error) {
+      await fs.promises.rm(partialPath, { force: true });
+      throw error;
+    }
+
+    await this.rotateBackups();
+
+    const stats = await fs.promises.stat(filePath);
+    return { fileName, filePath, createdAt: stats.mtime.toISOString(), sizeBytes: stats.size };
+  }
+
+  private async rotateBackups(): Promise<void> {
+    let retention = DEFAULT_BACKUP_RETENTION;
+    try {
+      const configured = await this.getRetentionCount();
+      if (configured && configured >= 1) {
+        retention = Math.floor(configured);
+      }
+    } catch (error) {
+      console.warn('[BACKUP] Could not read backup retention, using default:', error);
+    }
+
+    for (const backup of this.listBackups().slice(retention)) {
+      try {
+        await fs.promises.unlink(backup.filePath);
+        console.log('[BACKUP] Removed old backup:', backup.fileName);
+      } catch (error) {
+        console.warn('[BACKUP] Could not remove old backup:', backup.fileName, error);
+      }
+    }
+  }
+}
@@ -0,0 +1,121 @@
+import { EventEmitter } from 'events';
+import axios from 'axios';
+
+export interface ConnectivityMonitorOptions {
+  getApiUrl: () => string;
+}
+
+export interface ConnectivityState {
+  online: boolean;
+  graphReachable: boolean;
+  apiReachable: boolean;
+  /** When the last check finished; null before the first check */
+  checkedAt: string | null;
+}
+
+const GRAPH_PROBE_URL = 'https://graph.microsoft.com/v1.0/';
+const PROBE_TIMEOUT_MS = 8000;
+const ONLINE_CHECK_INTERVAL_MS = 60 * 1000;
+const OFFLINE_CHECK_INTERVAL_MS = 15 * 1000;
+
+/**
+ * Watches whether Microsoft Graph and the BrokerNet API can be reached.
+ * Emits 'changed' with a ConnectivityState when either one comes or goes.
+ */
+export class ConnectivityMonitor extends EventEmitter {
+  private getApiUrl: () => string;
+  // Assume online until a check says otherwise so startup is not held up
+  private state: ConnectivityState = { online: true, graphReachable: true, apiReachable: true, checkedAt: null };
+  private checkTimer: NodeJS.Timeout | null = null;
+  private checkInProgress: Promise<ConnectivityState> | null = null;
+  private running = false;
+
+  constructor(options: ConnectivityMonitorOptions) {
+    super();
+    this.getApiUrl = options.getApiUrl;
+  }
+
+  start(): void {
+    if (this.running) return;
+
+    console.log('[CONNECTIVITY] Starting connectivity checks');
+    this.running = true;
+    this.checkNow();
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.checkTimer) {
+      clearTimeout(this.checkTimer);
+      this.checkTimer = null;
+    }
+  }
+
+  getState(): ConnectivityState {
+    return this.state;
+  }
+
+  isOnline(): boolean {
+    return this.state.online;
+  }
+
+  /**
+   * Probe both services now, e.g. after a request failed. Checks requested
+   * while one is running share its result.
+   */
+  checkNow(): Promise<ConnectivityState> {
+    if (this.checkInProgress) return this.checkInProgress;
+
+    this.checkInProgress = this.runCheck().finally(() => {
+      this.checkInProgress = null;
+      this.scheduleNextCheck();
+    });
+    return this.checkInProgress;
+  }
+
+  private async runCheck(): Promise<ConnectivityState> {
+    const [graphReachable, apiReachable] = await Promise.all([
+      this.isReachable(GRAPH_PROBE_URL),
+      this.isReachable(this.getApiUrl())
+    ]);
+
+    const previous = this.state;
+    this.state = {
+      online: graphReachable && apiReachable,
+      graphReachable,
+      apiReachable,
+      checkedAt: new Date().toISOString()
+    };
+
+    if (previous.graphReachable !== graphReachable || previous.apiReachable !== apiReachable) {
+      console.log('[CONNECTIVITY] Connectivity changed - Graph:', graphReachable ? 'reachable' : 'unreachable', 'API:', apiReachable ? 'reachable' : 'unreachable');
+      this.emit('changed', this.state);
+    }
+    return this.state;
+  }
+
+  /**
+   * Any HTTP response counts, even an error status; only a failure to get a
+   * response at all means the service is unreachable
+   */
+  private async isReachable(url: string): Promise<boolean> {
+    try {
+      await axios.head(url, { timeout: PROBE_TIMEOUT_MS, validateStatus: () => true });
+      return true;
+    } catch (error: any) {
+      console.log('[CONNECTIVITY] Could not reach', url, '-', error.code || error.message);
+      return false;
+    }
+  }
+
+  private scheduleNextCheck(): void {
+    if (this.checkTimer) {
+      clearTimeout(this.checkTimer);
+      this.checkTimer = null;
+    }
+    if (!this.running) return;
+
+    const interval = this.state.online ? ONLINE_CHECK_INTERVAL_MS : OFFLINE_CHECK_INTERVAL_MS;
+    this.checkTimer = setTimeout(() => this.checkNow(), interval);
+  }
+}
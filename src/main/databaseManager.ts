@@ -1,27 +1,60 @@
 import Database from 'better-sqlite3';
 import * as path from 'path';
 import * as os from 'os';
+import * as fs from 'fs';
+import { EventEmitter } from 'events';
+import { app } from 'electron';
+import { runMigrations } from './migrations';
+
+/** The step a queue item runs next; each one is saved as it completes so retries resume there */
+export type ProcessingStep = 'upload' | 'associate' | 'cleanup';
+
+/** The OneDrive item created by a queue item's upload step */
+export interface UploadedItem {
+  itemId: string;
+  driveId?: string;
+  path?: string;
+  webUrl?: string;
+  contentHash?: string;
+}
 
 export interface ProcessingQueueItem {
   id: number;
   filePath: string;
   fileName: string;
+  displayName?: string;
   fileSize: number;
-  status: 'pending' | 'processing' | 'completed' | 'error';
+  status: 'pending' | 'queued' | 'waiting_network' | 'waiting_auth' | 'processing' | 'completed' | 'error';
   tags: string;
   folderPath?: string;
+  /** Drive folderPath is in; the account's default drive when unset */
+  targetDriveId?: string;
   entityId?: number;
   transactionId?: number;
   stageKey?: string;
   notes?: string;
   errorMessage?: string;
+  uploadSessionUrl?: string;
+  uploadOffset?: number;
+  attemptCount?: number;
+  /** When a failed upload is next tried; unset when the item is not waiting to retry */
+  nextRetryAt?: string;
+  processingStep?: ProcessingStep;
+  /** Set once the file is in OneDrive, so later steps and retries reuse it */
+  uploadedItem?: UploadedItem;
+  /** Microsoft account that uploads the file; the active account when unset */
+  accountId?: string;
   createdAt: string;
   updatedAt: string;
 }
 
+export type ProcessingQueueUpdate = Partial<Pick<ProcessingQueueItem, 'displayName' | 'tags' | 'folderPath'>>;
+
 export interface FileHistoryItem {
   id: number;
   fileName: string;
+  /** Name the file was uploaded as, when it differs from the original */
+  displayName?: string;
   filePath: string;
   fileSize: number;
   tags: string;
@@ -30,118 +63,420 @@ export interface FileHistoryItem {
   transactionId?: number;
   stageKey?: string;
   notes?: string;
+  oneDriveItemId?: string;
+  driveId?: string;
+  /** Path of the uploaded file inside its drive */
+  oneDrivePath?: string;
+  webUrl?: string;
+  uploadedBy?: string;
+  /** SHA-256 of the file contents, hex encoded */
+  contentHash?: string;
   processedAt: string;
 }
 
+export interface FileHistoryFilter {
+  /** Matched against file names, folder, notes and uploader */
+  search?: string;
+  /** Inclusive lower bound, as an ISO timestamp */
+  fromDate?: string;
+  /** Exclusive upper bound, as an ISO timestamp */
+  toDate?: string;
+  /** Only files carrying all of these tags */
+  tagIds?: number[];
+  folderPath?: string;
+  /** Maximum rows to return; all matching rows when unset */
+  limit?: number;
+  offset?: number;
+}
+
 export interface CachedData {
   key: string;
   value: string;
   expiresAt: string;
 }
 
-export class DatabaseManager {
+export interface DatabaseHealth {
+  status: 'ok' | 'degraded' | 'repairing';
+  /** Why the database could not be opened */
+  error?: string;
+  /** Problems reported by the last integrity check */
+  integrityErrors?: string[];
+  /** Whether a backup exists to restore from */
+  canRestoreBackup: boolean;
+}
+
+export type DatabaseRepairAction = 'integrity-check' | 'restore-backup' | 'recreate';
+
+export interface DatabaseRepairResult {
+  success: boolean;
+  message: string;
+  /** File the readable rows were saved to before the database was recreated */
+  exportPath?: string;
+}
+
+/**
+ * Thrown by writes while the database is unavailable, so callers cannot mistake
+ * an unsaved change for a saved one
+ */
+export class DatabaseUnavailableError extends Error {
+  constructor(reason?: string) {
+    super(`Local database is unavailable${reason ? `: ${reason}` : ''}`);
+    this.name = 'DatabaseUnavailableError';
+  }
+}
+
+const DATABASE_FILE_NAME = 'blinkapp-desktop.db';
+const BACKUP_DIRECTORY_NAME = 'backups';
+
+/**
+ * Emits 'health-changed' with a DatabaseHealth whenever the database becomes
+ * unavailable, is being repaired or is working again
+ */
+export class DatabaseManager extends EventEmitter {
   private db: Database.Database | null = null;
   private dbPath: string;
+  private health: DatabaseHealth = { status: 'degraded', error: 'Not initialized', canRestoreBackup: false };
 
   constructor() {
-    // Use temp directory for database
-    this.dbPath = path.join(os.tmpdir(), 'blinkapp-desktop.db');
+    super();
+    this.dbPath = path.join(app.getPath('userData'), DATABASE_FILE_NAME);
     console.log('[DATABASE] Database path:', this.dbPath);
   }
 
+  getDatabasePath(): string {
+    return this.dbPath;
+  }
+
+  getBackupDirectory(): string {
+    return path.join(path.dirname(this.dbPath), BACKUP_DIRECTORY_NAME);
+  }
+
+  getHealth(): DatabaseHealth {
+    return this.health;
+  }
+
+  isAvailable(): boolean {
+    return this.db !== null;
+  }
+
   async initialize(): Promise<void> {
+    console.log('[DATABASE] Initializing database...');
+    
+    try {
+      this.moveLegacyDatabase();
+    } catch (moveError) {
+      // Start with a fresh database rather than not at all
+      console.error('[DATABASE] Error moving database out of temp folder:', moveError);
+    }
+
+    this.open();
+  }
+
+  /**
+   * Open the database, check it and bring its schema up to date. On failure the
+   * manager stays in degraded mode: reads return nothing and writes throw.
+   */
+  private open(): boolean {
     try {
-      console.log('[DATABASE] Initializing database...');
-      
-      // Try to create database
-      this.db = new Database(this.dbPath);
-      
-      // Create tables
-      this.createTables();
-      
+      const db = new Database(this.dbPath);
+      try {
+        const check = db.pragma('quick_check', { simple: true });
+        if (check !== 'ok') {
+          throw new Error(`Integrity check failed: ${check}`);
+        }
+        
+        const version = runMigrations(db);
+        console.log('[DATABASE] Schema version:', version);
+      } catch (error) {
+        db.close();
+        throw error;
+      }
+
+      this.db = db;
       console.log('[DATABASE] Database initialized successfully');
+      this.setHealth({ status: 'ok', canRestoreBackup: this.findLatestBackup() !== null });
+      return true;
     } catch (error) {
       console.error('[DATABASE] Error initializing database:', error);
-      
-      // Fallback to mock database
-      console.log('[DATABASE] Falling back to mock database mode');
       this.db = null;
+      this.setHealth({
+        status: 'degraded',
+        error: error instanceof Error ? error.message : String(error),
+        canRestoreBackup: this.findLatestBackup() !== null
+      });
+      return false;
     }
   }
 
-  private createTables(): void {
-    if (!this.db) return;
+  private setHealth(health: DatabaseHealth): void {
+    this.health = health;
+    this.emit('health-changed', health);
+  }
+
+  /**
+   * Try to get a degraded database working again
+   */
+  async repair(action: DatabaseRepairAction): Promise<DatabaseRepairResult> {
+    console.log('[DATABASE] Repairing database:', action);
+    const previous = this.health;
+    this.setHealth({ ...previous, status: 'repairing' });
 
     try {
-      // Processing queue table
-      this.db.exec(`
-        CREATE TABLE IF NOT EXISTS processing_queue (
-          id INTEGER PRIMARY KEY AUTOINCREMENT,
-          file_path TEXT NOT NULL,
-          file_name TEXT NOT NULL,
-          file_size INTEGER NOT NULL,
-          status TEXT NOT NULL DEFAULT 'pending',
-          tags TEXT,
-          folder_path TEXT,
-          entity_id INTEGER,
-          transaction_id INTEGER,
-          stage_key TEXT,
-          notes TEXT,
-          error_message TEXT,
-          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
-        )
-      `);
+      switch (action) {
+        case 'integrity-check':
+          return this.runIntegrityCheck();
+        case 'restore-backup':
+          return this.restoreLatestBackup();
+        case 'recreate':
+          return await this.recreate();
+        default:
+          throw new Error(`Unknown repair action: ${action}`);
+      }
+    } catch (error) {
+      console.error('[DATABASE] Repair failed:', error);
+      const message = error instanceof Error ? error.message : String(error);
+      if (this.health.status === 'repairing') {
+        this.setHealth({ ...previous, status: this.db ? 'ok' : 'degraded' });
+      }
+      return { success: false, message };
+    }
+  }
 
-      // File history table
-      this.db.exec(`
-        CREATE TABLE IF NOT EXISTS file_history (
-          id INTEGER PRIMARY KEY AUTOINCREMENT,
-          file_name TEXT NOT NULL,
-          file_path TEXT NOT NULL,
-          file_size INTEGER NOT NULL,
-          tags TEXT,
-          folder_path TEXT,
-          entity_id INTEGER,
-          transaction_id INTEGER,
-          stage_key TEXT,
-          notes TEXT,
-          processed_at DATETIME DEFAULT CURRENT_TIMESTAMP
-        )
-      `);
+  /**
+   * Run a full integrity check and reopen the database if it passes, which also
+   * recovers from failures that were only temporary, such as a locked file
+   */
+  private runIntegrityCheck(): DatabaseRepairResult {
+    this.close();
 
-      // Cache table
-      this.db.exec(`
-        CREATE TABLE IF NOT EXISTS cache (
-          key TEXT PRIMARY KEY,
-          value TEXT NOT NULL,
-          expires_at DATETIME NOT NULL
-        )
-      `);
+    const db = new Database(this.dbPath);
+    let problems: string[];
+    try {
+      const rows = db.pragma('integrity_check') as { integrity_check: string }[];
+      problems = rows.map(row => row.integrity_check).filter(result => result !== 'ok');
+    } finally {
+      db.close();
+    }
+
+    if (problems.length > 0) {
+      this.setHealth({
+        status: 'degraded',
+        error: 'The database file is damaged',
+        integrityErrors: problems.slice(0, 20),
+        canRestoreBackup: this.findLatestBackup() !== null
+      });
+      return { success: false, message: `Integrity check found ${problems.length} problem(s)` };
+    }
+
+    return this.open()
+      ? { success: true, message: 'Database is healthy' }
+      : { success: false, message: this.health.error || 'Database could not be opened' };
+  }
+
+  /**
+   * Replace the database with the most recent backup, keeping the damaged file aside
+   */
+  private restoreLatestBackup(): DatabaseRepairResult {
+    const backupPath = this.findLatestBackup();
+    if (!backupPath) {
+      throw new Error('No database backup found');
+    }
+
+    return this.restoreBackup(backupPath, 'damaged');
+  }
+
+  /**
+   * Replace the database with a backup file. The current file is kept next to it,
+   * renamed with the given label, and the backup is checked before anything is swapped.
+   */
+  restoreBackup(backupPath: string, label: string = 'before-restore'): DatabaseRepairResult {
+    const backup = new Database(backupPath, { readonly: true, fileMustExist: true });
+    try {
+      const check = backup.pragma('quick_check', { simple: true });
+      if (check !== 'ok') {
+        throw new Error(`Backup ${path.basename(backupPath)} failed its integrity check: ${check}`);
+      }
+    } finally {
+      backup.close();
+    }
 
-      console.log('[DATABASE] Tables created successfully');
+    this.close();
+    this.moveAside(label);
+    fs.copyFileSync(backupPath, this.dbPath);
+    console.log('[DATABASE] Restored database from backup:', backupPath);
+
+    return this.open()
+      ? { success: true, message: `Restored from backup ${path.basename(backupPath)}` }
+      : { success: false, message: this.health.error || 'Restored backup could not be opened' };
+  }
+
+  /**
+   * Write a consistent copy of the live database while it stays in use
+   */
+  async backup(destinationPath: string): Promise<void> {
+    if (!this.db) {
+      throw new DatabaseUnavailableError(this.health.error);
+    }
+
+    await this.db.backup(destinationPath);
+  }
+
+  /**
+   * Save whatever rows can still be read to a JSON file, then start a new, empty database
+   */
+  private async recreate(): Promise<DatabaseRepairResult> {
+    this.close();
+
+    const exportPath = path.join(path.dirname(this.dbPath), `recovered-${this.timestampForFileName()}.json`);
+    const recovered: Record<string, any[]> = {};
+    if (fs.existsSync(this.dbPath)) {
+      try {
+        const damaged = new Database(this.dbPath, { readonly: true, fileMustExist: true });
+        try {
+          for (const table of ['processing_queue', 'file_history']) {
+            try {
+              recovered[table] = damaged.prepare(`SELECT * FROM ${table}`).all();
+            } catch (tableError) {
+              console.warn('[DATABASE] Could not read table during recovery:', table, tableError);
+            }
+          }
+        } finally {
+          damaged.close();
+        }
+      } catch (openError) {
+        console.warn('[DATABASE] Could not open damaged database for recovery:', openError);
+      }
+    }
+    await fs.promises.writeFile(exportPath, JSON.stringify(recovered, null, 2), 'utf-8');
+
+    this.moveAside('damaged');
+    if (!this.open()) {
+      return { success: false, message: this.health.error || 'New database could not be created', exportPath };
+    }
+
+    const rowCount = Object.values(recovered).reduce((total, rows) => total + rows.length, 0);
+    return { success: true, message: `Created a new database; ${rowCount} readable row(s) saved to ${exportPath}`, exportPath };
+  }
+
+  /**
+   * Most recent backup file, if any
+   */
+  findLatestBackup(): string | null {
+    try {
+      const directory = this.getBackupDirectory();
+      if (!fs.existsSync(directory)) return null;
+
+      const backups = fs.readdirSync(directory)
+        .filter(name => name.endsWith('.db'))
+        .map(name => path.join(directory, name))
+        .sort((a, b) => fs.statSync(b).mtimeMs - fs.statSync(a).mtimeMs);
+      return backups[0] || null;
     } catch (error) {
-      console.error('[DATABASE] Error creating tables:', error);
+      console.error('[DATABASE] Error looking for backups:', error);
+      return null;
     }
   }
 
+  /**
+   * Rename the database file and its WAL files so a replacement can take their place
+   */
+  private moveAside(label: string): void {
+    const suffix = `.${label}-${this.timestampForFileName()}`;
+    for (const extension of ['', '-wal', '-shm']) {
+      const source = this.dbPath + extension;
+      if (fs.existsSync(source)) {
+        fs.renameSync(source, this.dbPath + suffix + extension);
+      }
+    }
+  }
+
+  private timestampForFileName(): string {
+    return new Date().toISOString().replace(/[:.]/g, '-');
+  }
+
+  /**
+   * Move a database left in the temp folder by earlier versions into userData,
+   * along with its WAL files. Skipped if userData already has a database.
+   */
+  private moveLegacyDatabase(): void {
+    const legacyPath = path.join(os.tmpdir(), DATABASE_FILE_NAME);
+    if (!fs.existsSync(legacyPath)) return;
+
+    if (fs.existsSync(this.dbPath)) {
+      console.log('[DATABASE] Leaving old temp database in place, userData already has one:', legacyPath);
+      return;
+    }
+
+    console.log('[DATABASE] Moving database from temp folder to:', this.dbPath);
+    fs.mkdirSync(path.dirname(this.dbPath), { recursive: true });
+    for (const suffix of ['', '-wal', '-shm']) {
+      const source = legacyPath + suffix;
+      if (!fs.existsSync(source)) continue;
+
+      try {
+        fs.renameSync(source, this.dbPath + suffix);
+      } catch (error: any) {
+        // Temp and userData can be on different drives
+        if (error.code !== 'EXDEV') throw error;
+        fs.copyFileSync(source, this.dbPath + suffix);
+        fs.unlinkSync(source);
+      }
+    }
+  }
+
+  private mapQueueRow(row: any): ProcessingQueueItem {
+    return {
+      id: row.id,
+      filePath: row.file_path,
+      fileName: row.file_name,
+      displayName: row.display_name || undefined,
+      fileSize: row.file_size,
+      status: row.status,
+      tags: row.tags || '[]',
+      folderPath: row.folder_path || undefined,
+      entityId: row.entity_id || undefined,
+      transactionId: row.transaction_id || undefined,
+      stageKey: row.stage_key || undefined,
+      notes: row.notes || undefined,
+      errorMessage: row.error_message || undefined,
+      uploadSessionUrl: row.upload_session_url || undefined,
+      uploadOffset: row.upload_offset || 0,
+      attemptCount: row.attempt_count || 0,
+      nextRetryAt: row.next_retry_at || undefined,
+      processingStep: row.processing_step || 'upload',
+      uploadedItem: row.onedrive_item_id
+        ? {
+          itemId: row.onedrive_item_id,
+          driveId: row.onedrive_drive_id || undefined,
+          path: row.onedrive_path || undefined,
+          webUrl: row.onedrive_web_url || undefined,
+          contentHash: row.content_hash || undefined
+        }
+        : undefined,
+      accountId: row.account_id || undefined,
+      targetDriveId: row.target_drive_id || undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
   // Processing Queue Methods
   addToProcessingQueue(item: Omit<ProcessingQueueItem, 'id' | 'createdAt' | 'updatedAt'>): number {
     if (!this.db) {
-      console.log('[DATABASE] Mock: Adding to processing queue');
-      return Date.now(); // Mock ID
+      throw new DatabaseUnavailableError(this.health.error);
     }
 
     try {
       const stmt = this.db.prepare(`
         INSERT INTO processing_queue 
-        (file_path, file_name, file_size, status, tags, folder_path, entity_id, transaction_id, stage_key, notes, error_message)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        (file_path, file_name, display_name, file_size, status, tags, folder_path, entity_id, transaction_id, stage_key, notes, error_message, account_id, target_drive_id)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `);
 
       const result = stmt.run(
         item.filePath,
         item.fileName,
+        item.displayName || null,
         item.fileSize,
         item.status,
         item.tags,
@@ -150,7 +485,9 @@ export class DatabaseManager {
         item.transactionId || null,
         item.stageKey || null,
         item.notes || null,
-        item.errorMessage || null
+        item.errorMessage || null,
+        item.accountId || null,
+        item.targetDriveId || null
       );
 
       return result.lastInsertRowid as number;
@@ -161,26 +498,203 @@ export class DatabaseManager {
   }
 
   getProcessingQueue(): ProcessingQueueItem[] {
-    if (!this.db) {
-      console.log('[DATABASE] Mock: Getting processing queue');
-      return [];
-    }
+    if (!this.db) return [];
 
     try {
-      const stmt = this.db.prepare('SELECT * FROM processing_queue ORDER BY created_at DESC');
-      return stmt.all() as ProcessingQueueItem[];
+      const stmt = this.db.prepare('SELECT * FROM processing_queue ORDER BY created_at ASC, id ASC');
+      return stmt.all().map(row => this.mapQueueRow(row));
     } catch (error) {
       console.error('[DATABASE] Error getting processing queue:', error);
       return [];
     }
   }
 
-  updateProcessingStatus(id: number, status: string, errorMessage?: string): boolean {
+  getProcessingQueueItem(id: number): ProcessingQueueItem | null {
+    if (!this.db) return null;
+
+    try {
+      const row = this.db.prepare('SELECT * FROM processing_queue WHERE id = ?').get(id);
+      return row ? this.mapQueueRow(row) : null;
+    } catch (error) {
+      console.error('[DATABASE] Error getting processing queue item:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Find the queue row for a file that has not been uploaded yet
+   */
+  findActiveQueueItemByPath(filePath: string): ProcessingQueueItem | null {
+    if (!this.db) return null;
+
+    try {
+      const row = this.db.prepare(`
+        SELECT * FROM processing_queue 
+        WHERE file_path = ? AND status != 'completed' 
+        ORDER BY id DESC LIMIT 1
+      `).get(filePath);
+      return row ? this.mapQueueRow(row) : null;
+    } catch (error) {
+      console.error('[DATABASE] Error finding processing queue item:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Get the oldest item waiting for the upload worker whose retry time, if any, has passed
+   */
+  getNextQueuedItem(): ProcessingQueueItem | null {
+    if (!this.db) return null;
+
+    try {
+      const row = this.db.prepare(`
+        SELECT * FROM processing_queue 
+        WHERE status = 'queued' 
+          AND (next_retry_at IS NULL OR next_retry_at <= datetime('now')) 
+        ORDER BY updated_at ASC, id ASC LIMIT 1
+      `).get();
+      return row ? this.mapQueueRow(row) : null;
+    } catch (error) {
+      console.error('[DATABASE] Error getting next queued item:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Put items that were mid-upload when the app stopped back in the queue
+   */
+  requeueInterruptedItems(): number {
+    if (!this.db) return 0;
+
+    try {
+      const result = this.db.prepare(`
+        UPDATE processing_queue 
+        SET status = 'queued', updated_at = CURRENT_TIMESTAMP 
+        WHERE status = 'processing'
+      `).run();
+      return result.changes;
+    } catch (error) {
+      console.error('[DATABASE] Error requeueing interrupted items:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Hold queued items while Graph or the API cannot be reached so they are not
+   * picked up, and their attempts not used up, until the network is back
+   */
+  holdQueuedItemsForNetwork(): number {
+    if (!this.db) return 0;
+
+    try {
+      const result = this.db.prepare(`
+        UPDATE processing_queue 
+        SET status = 'waiting_network', updated_at = CURRENT_TIMESTAMP 
+        WHERE status = 'queued'
+      `).run();
+      return result.changes;
+    } catch (error) {
+      console.error('[DATABASE] Error holding queued items for network:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Queue items held for the network again, ready to upload straight away
+   */
+  releaseItemsWaitingForNetwork(): number {
+    if (!this.db) return 0;
+
+    try {
+      const result = this.db.prepare(`
+        UPDATE processing_queue 
+        SET status = 'queued', next_retry_at = NULL, updated_at = CURRENT_TIMESTAMP 
+        WHERE status = 'waiting_network'
+      `).run();
+      return result.changes;
+    } catch (error) {
+      console.error('[DATABASE] Error releasing items waiting for network:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Hold an account's queued items while it has to sign in again so they are
+   * not picked up, and their attempts not used up, until it does
+   */
+  holdQueuedItemsForAuth(accountId: string): number {
+    if (!this.db) return 0;
+
+    try {
+      const result = this.db.prepare(`
+        UPDATE processing_queue 
+        SET status = 'waiting_auth', updated_at = CURRENT_TIMESTAMP 
+        WHERE status = 'queued' AND account_id = ?
+      `).run(accountId);
+      return result.changes;
+    } catch (error) {
+      console.error('[DATABASE] Error holding queued items for sign-in:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Queue items held for sign-in again. Items whose account still has to sign
+   * in are held again when the worker reaches them.
+   */
+  releaseItemsWaitingForAuth(): number {
+    if (!this.db) return 0;
+
+    try {
+      const result = this.db.prepare(`
+        UPDATE processing_queue 
+        SET status = 'queued', next_retry_at = NULL, updated_at = CURRENT_TIMESTAMP 
+        WHERE status = 'waiting_auth'
+      `).run();
+      return result.changes;
+    } catch (error) {
+      console.error('[DATABASE] Error releasing items waiting for sign-in:', error);
+      return 0;
+    }
+  }
+
+  updateQueueItem(id: number, updates: ProcessingQueueUpdate): boolean {
     if (!this.db) {
-      console.log('[DATABASE] Mock: Updating processing status');
+      throw new DatabaseUnavailableError(this.health.error);
+    }
+
+    const columns: Record<keyof ProcessingQueueUpdate, string> = {
+      displayName: 'display_name',
+      tags: 'tags',
+      folderPath: 'folder_path'
+    };
+
+    const keys = (Object.keys(updates) as (keyof ProcessingQueueUpdate)[]).filter(key => key in columns);
+    if (keys.length === 0) {
       return true;
     }
 
+    try {
+      const assignments = keys.map(key => `${columns[key]} = ?`).join(', ');
+      const stmt = this.db.prepare(`
+        UPDATE processing_queue 
+        SET ${assignments}, updated_at = CURRENT_TIMESTAMP 
+        WHERE id = ?
+      `);
+
+      stmt.run(...keys.map(key => updates[key] ?? null), id);
+      return true;
+    } catch (error) {
+      console.error('[DATABASE] Error updating processing queue item:', error);
+      return false;
+    }
+  }
+
+  updateProcessingStatus(id: number, status: string, errorMessage?: string): boolean {
+    if (!this.db) {
+      throw new DatabaseUnavailableError(this.health.error);
+    }
+
     try {
       const stmt = this.db.prepare(`
         UPDATE processing_queue 
@@ -196,10 +710,200 @@ export class DatabaseManager {
     }
   }
 
-  removeFromProcessingQueue(id: number): boolean {
+  /**
+   * Count a failed upload attempt. With a retry delay the item goes back in the
+   * queue until then; without one it is left as failed.
+   */
+  recordUploadFailure(id: number, errorMessage: string, retryDelaySeconds: number | null): boolean {
     if (!this.db) {
-      console.log('[DATABASE] Mock: Removing from processing queue');
+      throw new DatabaseUnavailableError(this.health.error);
+    }
+
+    try {
+      if (retryDelaySeconds === null) {
+        this.db.prepare(`
+          UPDATE processing_queue 
+          SET status = 'error', error_message = ?, attempt_count = attempt_count + 1, 
+              next_retry_at = NULL, updated_at = CURRENT_TIMESTAMP 
+          WHERE id = ?
+        `).run(errorMessage, id);
+      } else {
+        this.db.prepare(`
+          UPDATE processing_queue 
+          SET status = 'queued', error_message = ?, attempt_count = attempt_count + 1, 
+              next_retry_at = datetime('now', ?), updated_at = CURRENT_TIMESTAMP 
+          WHERE id = ?
+        `).run(errorMessage, `+${Math.ceil(retryDelaySeconds)} seconds`, id);
+      }
       return true;
+    } catch (error) {
+      console.error('[DATABASE] Error recording upload failure:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Queue items for upload straight away, clearing earlier failures and any scheduled retry.
+   * Items that are uploading or already uploaded are left alone. Items not yet
+   * in OneDrive are given to accountId; ones partly or fully uploaded keep
+   * the account they were uploaded with.
+   */
+  queueForUpload(ids: number[], accountId?: string): number {
+    if (!this.db) {
+      throw new DatabaseUnavailableError(this.health.error);
+    }
+
+    try {
+      const stmt = this.db.prepare(`
+        UPDATE processing_queue 
+        SET status = 'queued', error_message = NULL, attempt_count = 0, 
+            next_retry_at = NULL, updated_at = CURRENT_TIMESTAMP, 
+            account_id = CASE WHEN onedrive_item_id IS NULL AND upload_session_url IS NULL 
+              THEN COALESCE(?, account_id) ELSE account_id END 
+        WHERE id = ? AND status NOT IN ('processing', 'completed')
+      `);
+      const queueAll = this.db.transaction((queueIds: number[]) =>
+        queueIds.reduce((changes, id) => changes + stmt.run(accountId || null, id).changes, 0)
+      );
+      return queueAll(ids);
+    } catch (error) {
+      console.error('[DATABASE] Error queueing items for upload:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Get the IDs of items that failed and will not be retried automatically
+   */
+  getFailedQueueItemIds(): number[] {
+    if (!this.db) return [];
+
+    try {
+      const rows = this.db.prepare(`SELECT id FROM processing_queue WHERE status = 'error' ORDER BY id ASC`).all() as { id: number }[];
+      return rows.map(row => row.id);
+    } catch (error) {
+      console.error('[DATABASE] Error getting failed queue items:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Remember a Graph upload session so an interrupted upload can resume
+   */
+  saveUploadSession(id: number, uploadUrl: string | null, offset: number = 0): boolean {
+    if (!this.db) {
+      throw new DatabaseUnavailableError(this.health.error);
+    }
+
+    try {
+      const stmt = this.db.prepare(`
+        UPDATE processing_queue 
+        SET upload_session_url = ?, upload_offset = ?, updated_at = CURRENT_TIMESTAMP 
+        WHERE id = ?
+      `);
+
+      stmt.run(uploadUrl, uploadUrl ? offset : 0, id);
+      return true;
+    } catch (error) {
+      console.error('[DATABASE] Error saving upload session:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Record the Microsoft account an item is uploaded with
+   */
+  setQueueItemAccount(id: number, accountId: string): boolean {
+    if (!this.db) {
+      throw new DatabaseUnavailableError(this.health.error);
+    }
+
+    try {
+      this.db.prepare(`
+        UPDATE processing_queue 
+        SET account_id = ?, updated_at = CURRENT_TIMESTAMP 
+        WHERE id = ?
+      `).run(accountId, id);
+      return true;
+    } catch (error) {
+      console.error('[DATABASE] Error setting queue item account:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Save the OneDrive item an upload created and move on to tagging it
+   */
+  recordUploadedItem(id: number, uploaded: UploadedItem): boolean {
+    if (!this.db) {
+      throw new DatabaseUnavailableError(this.health.error);
+    }
+
+    try {
+      this.db.prepare(`
+        UPDATE processing_queue 
+        SET processing_step = 'associate', onedrive_item_id = ?, onedrive_drive_id = ?, onedrive_path = ?, 
+            onedrive_web_url = ?, content_hash = ?, upload_session_url = NULL, upload_offset = 0, 
+            updated_at = CURRENT_TIMESTAMP 
+        WHERE id = ?
+      `).run(
+        uploaded.itemId,
+        uploaded.driveId || null,
+        uploaded.path || null,
+        uploaded.webUrl || null,
+        uploaded.contentHash || null,
+        id
+      );
+      return true;
+    } catch (error) {
+      console.error('[DATABASE] Error recording uploaded item:', error);
+      return false;
+    }
+  }
+
+  setProcessingStep(id: number, step: ProcessingStep): boolean {
+    if (!this.db) {
+      throw new DatabaseUnavailableError(this.health.error);
+    }
+
+    try {
+      this.db.prepare(`
+        UPDATE processing_queue 
+        SET processing_step = ?, updated_at = CURRENT_TIMESTAMP 
+        WHERE id = ?
+      `).run(step, id);
+      return true;
+    } catch (error) {
+      console.error('[DATABASE] Error setting processing step:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Forget the uploaded item after it was rolled back, so a retry uploads again
+   */
+  clearUploadedItem(id: number): boolean {
+    if (!this.db) {
+      throw new DatabaseUnavailableError(this.health.error);
+    }
+
+    try {
+      this.db.prepare(`
+        UPDATE processing_queue 
+        SET processing_step = 'upload', onedrive_item_id = NULL, onedrive_drive_id = NULL, onedrive_path = NULL, 
+            onedrive_web_url = NULL, content_hash = NULL, updated_at = CURRENT_TIMESTAMP 
+        WHERE id = ?
+      `).run(id);
+      return true;
+    } catch (error) {
+      console.error('[DATABASE] Error clearing uploaded item:', error);
+      return false;
+    }
+  }
+
+  removeFromProcessingQueue(id: number): boolean {
+    if (!this.db) {
+      throw new DatabaseUnavailableError(this.health.error);
     }
 
     try {
@@ -215,19 +919,20 @@ export class DatabaseManager {
   // File History Methods
   addToFileHistory(item: Omit<FileHistoryItem, 'id' | 'processedAt'>): number {
     if (!this.db) {
-      console.log('[DATABASE] Mock: Adding to file history');
-      return Date.now(); // Mock ID
+      throw new DatabaseUnavailableError(this.health.error);
     }
 
     try {
       const stmt = this.db.prepare(`
         INSERT INTO file_history 
-        (file_name, file_path, file_size, tags, folder_path, entity_id, transaction_id, stage_key, notes)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        (file_name, display_name, file_path, file_size, tags, folder_path, entity_id, transaction_id, stage_key, notes, 
+         onedrive_item_id, drive_id, onedrive_path, web_url, uploaded_by, content_hash)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `);
 
       const result = stmt.run(
         item.fileName,
+        item.displayName || null,
         item.filePath,
         item.fileSize,
         item.tags,
@@ -235,7 +940,13 @@ export class DatabaseManager {
         item.entityId || null,
         item.transactionId || null,
         item.stageKey || null,
-        item.notes || null
+        item.notes || null,
+        item.oneDriveItemId || null,
+        item.driveId || null,
+        item.oneDrivePath || null,
+        item.webUrl || null,
+        item.uploadedBy || null,
+        item.contentHash || null
       );
 
       return result.lastInsertRowid as number;
@@ -245,27 +956,96 @@ export class DatabaseManager {
     }
   }
 
-  getFileHistory(limit: number = 50): FileHistoryItem[] {
-    if (!this.db) {
-      console.log('[DATABASE] Mock: Getting file history');
-      return [];
+  getFileHistory(filter: FileHistoryFilter = {}): FileHistoryItem[] {
+    if (!this.db) return [];
+
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+
+    const search = filter.search?.trim();
+    if (search) {
+      const pattern = `%${search.replace(/[\\%_]/g, '\\$&')}%`;
+      const searchable = ['file_name', 'display_name', 'folder_path', 'notes', 'uploaded_by'];
+      conditions.push(`(${searchable.map(column => `${column} LIKE ? ESCAPE '\\'`).join(' OR ')})`);
+      params.push(...searchable.map(() => pattern));
+    }
+    if (filter.fromDate) {
+      conditions.push('processed_at >= datetime(?)');
+      params.push(filter.fromDate);
+    }
+    if (filter.toDate) {
+      conditions.push('processed_at < datetime(?)');
+      params.push(filter.toDate);
+    }
+    for (const tagId of filter.tagIds || []) {
+      conditions.push('EXISTS (SELECT 1 FROM json_each(file_history.tags) WHERE json_each.value = ?)');
+      params.push(tagId);
+    }
+    if (filter.folderPath) {
+      conditions.push('folder_path = ?');
+      params.push(filter.folderPath);
     }
 
     try {
-      const stmt = this.db.prepare('SELECT * FROM file_history ORDER BY processed_at DESC LIMIT ?');
-      return stmt.all(limit) as FileHistoryItem[];
+      const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+      // SQLite treats a negative LIMIT as no limit
+      const stmt = this.db.prepare(`
+        SELECT * FROM file_history 
+        ${where} 
+        ORDER BY processed_at DESC, id DESC LIMIT ? OFFSET ?
+      `);
+      return stmt.all(...params, filter.limit ?? -1, filter.offset ?? 0).map(row => this.mapHistoryRow(row));
     } catch (error) {
       console.error('[DATABASE] Error getting file history:', error);
       return [];
     }
   }
 
+  /**
+   * Get the distinct folders files have been uploaded to, for the history folder filter
+   */
+  getFileHistoryFolders(): string[] {
+    if (!this.db) return [];
+
+    try {
+      const rows = this.db.prepare(`
+        SELECT DISTINCT folder_path FROM file_history 
+        WHERE folder_path IS NOT NULL AND folder_path != '' 
+        ORDER BY folder_path COLLATE NOCASE
+      `).all() as { folder_path: string }[];
+      return rows.map(row => row.folder_path);
+    } catch (error) {
+      console.error('[DATABASE] Error getting file history folders:', error);
+      return [];
+    }
+  }
+
+  private mapHistoryRow(row: any): FileHistoryItem {
+    return {
+      id: row.id,
+      fileName: row.file_name,
+      displayName: row.display_name || undefined,
+      filePath: row.file_path,
+      fileSize: row.file_size,
+      tags: row.tags || '[]',
+      folderPath: row.folder_path || undefined,
+      entityId: row.entity_id || undefined,
+      transactionId: row.transaction_id || undefined,
+      stageKey: row.stage_key || undefined,
+      notes: row.notes || undefined,
+      oneDriveItemId: row.onedrive_item_id || undefined,
+      driveId: row.drive_id || undefined,
+      oneDrivePath: row.onedrive_path || undefined,
+      webUrl: row.web_url || undefined,
+      uploadedBy: row.uploaded_by || undefined,
+      contentHash: row.content_hash || undefined,
+      processedAt: row.processed_at
+    };
+  }
+
   // Cache Methods
   cacheData(key: string, value: any, ttlMinutes: number = 60): boolean {
-    if (!this.db) {
-      console.log('[DATABASE] Mock: Caching data');
-      return true;
-    }
+    if (!this.db) return false;
 
     try {
       const expiresAt = new Date(Date.now() + ttlMinutes * 60 * 1000).toISOString();
@@ -282,11 +1062,23 @@ export class DatabaseManager {
     }
   }
 
-  getCachedData(key: string): any | null {
-    if (!this.db) {
-      console.log('[DATABASE] Mock: Getting cached data');
-      return null;
+  /**
+   * Remove every cached entry, e.g. when the user signs out
+   */
+  clearCache(): boolean {
+    if (!this.db) return false;
+
+    try {
+      this.db.prepare('DELETE FROM cache').run();
+      return true;
+    } catch (error) {
+      console.error('[DATABASE] Error clearing cache:', error);
+      return false;
     }
+  }
+
+  getCachedData(key: string): any | null {
+    if (!this.db) return null;
 
     try {
       const stmt = this.db.prepare('SELECT value, expires_at FROM cache WHERE key = ?');
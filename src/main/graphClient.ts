@@ -0,0 +1,157 @@
+import axios, { AxiosResponse, Method } from 'axios';
+import { EventEmitter } from 'events';
+
+export interface GraphRequestOptions {
+  method: Method;
+  url: string;
+  /** Request body; use dataFactory instead for bodies that can only be read once, such as streams */
+  data?: unknown;
+  /** Build a fresh body for each attempt */
+  dataFactory?: () => unknown;
+  headers?: Record<string, string>;
+  /** Send the signed-in user's bearer token (pre-authenticated upload URLs must not) */
+  authenticated?: boolean;
+  /** Whether the request can safely be repeated; defaults to true for everything except POST and PATCH */
+  idempotent?: boolean;
+  onUploadProgress?: (loaded: number) => void;
+}
+
+export interface ThrottleState {
+  throttled: boolean;
+  /** When requests will be sent again, as an ISO timestamp */
+  resumeAt?: string;
+  retryAfterSeconds?: number;
+  status?: number;
+}
+
+const THROTTLE_STATUSES = [429, 503];
+const MAX_THROTTLE_RETRIES = 5;
+// Used when a throttled response has no Retry-After header
+const DEFAULT_RETRY_AFTER_SECONDS = 10;
+
+/**
+ * Shared HTTP layer for Microsoft Graph. Throttled responses (429/503) pause every
+ * request until Retry-After has passed, and idempotent requests are retried.
+ * Emits 'throttled' with a ThrottleState whenever throttling starts or ends.
+ */
+export class GraphClient extends EventEmitter {
+  private getAccessToken: () => Promise<string>;
+  private throttledUntil = 0;
+  private throttled = false;
+
+  constructor(getAccessToken: () => Promise<string>) {
+    super();
+    this.getAccessToken = getAccessToken;
+  }
+
+  isThrottled(): boolean {
+    return this.throttled;
+  }
+
+  async get<T = any>(url: string, options: Partial<GraphRequestOptions> = {}): Promise<AxiosResponse<T>> {
+    return this.request<T>({ ...options, method: 'GET', url });
+  }
+
+  async post<T = any>(url: string, data?: unknown, options: Partial<GraphRequestOptions> = {}): Promise<AxiosResponse<T>> {
+    return this.request<T>({ ...options, method: 'POST', url, data });
+  }
+
+  async put<T = any>(url: string, data?: unknown, options: Partial<GraphRequestOptions> = {}): Promise<AxiosResponse<T>> {
+    return this.request<T>({ ...options, method: 'PUT', url, data });
+  }
+
+  async delete<T = any>(url: string, options: Partial<GraphRequestOptions> = {}): Promise<AxiosResponse<T>> {
+    return this.request<T>({ ...options, method: 'DELETE', url });
+  }
+
+  async request<T = any>(options: GraphRequestOptions): Promise<AxiosResponse<T>> {
+    const method = options.method.toUpperCase();
+    const idempotent = options.idempotent ?? (method !== 'POST' && method !== 'PATCH');
+
+    for (let attempt = 1; ; attempt++) {
+      await this.waitForThrottle();
+
+      try {
+        const headers: Record<string, string> = { ...options.headers };
+        if (options.authenticated !== false) {
+          headers['Authorization'] = `Bearer ${await this.getAccessToken()}`;
+        }
+
+        const response = await axios.request<T>({
+          method: options.method,
+          url: options.url,
+          data: options.dataFactory ? options.dataFactory() : options.data,
+          headers,
+          maxContentLength: Infinity,
+          maxBodyLength: Infinity,
+          onUploadProgress: options.onUploadProgress
+            ? (progressEvent) => options.onUploadProgress!(progressEvent.loaded)
+            : undefined
+        });
+
+        this.clearThrottle();
+        return response;
+      } catch (error: any) {
+        const status: number | undefined = error.response?.status;
+        if (!status || !THROTTLE_STATUSES.includes(status)) {
+          throw error;
+        }
+
+        const retryAfterSeconds = this.parseRetryAfter(error.response.headers?.['retry-after'], attempt);
+        this.setThrottle(retryAfterSeconds, status);
+
+        if (!idempotent || attempt > MAX_THROTTLE_RETRIES) {
+          console.warn(`[GRAPH] ${method} ${options.url} throttled (${status}), not retrying`);
+          throw error;
+        }
+
+        console.log(`[GRAPH] ${method} ${options.url} throttled (${status}), retrying in ${retryAfterSeconds}s (attempt ${attempt} of ${MAX_THROTTLE_RETRIES})`);
+      }
+    }
+  }
+
+  /**
+   * Read Retry-After as either a number of seconds or an HTTP date
+   */
+  private parseRetryAfter(value: string | undefined, attempt: number): number {
+    if (value) {
+      const seconds = Number(value);
+      if (!isNaN(seconds)) {
+        return Math.max(0, seconds);
+      }
+
+      const date = Date.parse(value);
+      if (!isNaN(date)) {
+        return Math.max(0, Math.ceil((date - Date.now()) / 1000));
+      }
+    }
+
+    return DEFAULT_RETRY_AFTER_SECONDS * Math.pow(2, attempt - 1);
+  }
+
+  private setThrottle(retryAfterSeconds: number, status: number): void {
+    this.throttledUntil = Math.max(this.throttledUntil, Date.now() + retryAfterSeconds * 1000);
+    this.throttled = true;
+    this.emit('throttled', {
+      throttled: true,
+      resumeAt: new Date(this.throttledUntil).toISOString(),
+      retryAfterSeconds,
+      status
+    } as ThrottleState);
+  }
+
+  private clearThrottle(): void {
+    if (!this.throttled || Date.now() < this.throttledUntil) return;
+
+    console.log('[GRAPH] Throttling has ended');
+    this.throttled = false;
+    this.emit('throttled', { throttled: false } as ThrottleState);
+  }
+
+  private async waitForThrottle(): Promise<void> {
+    const delay = this.throttledUntil - Date.now();
+    if (delay > 0) {
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
@@ -0,0 +1,121 @@
+import * as fs from 'fs';
+import { DatabaseManager, FileHistoryFilter, FileHistoryItem } from './databaseManager';
+
+export type HistoryExportFormat = 'csv' | 'json';
+
+export interface HistoryExportRow {
+  originalFileName: string;
+  finalFileName: string;
+  oneDrivePath: string;
+  oneDriveItemId: string;
+  tags: string[];
+  uploadedBy: string;
+  uploadedAt: string;
+  fileSizeBytes: number;
+  contentHash: string;
+}
+
+const CSV_COLUMNS: { header: string; value: (row: HistoryExportRow) => string | number }[] = [
+  { header: 'Original File Name', value: row => row.originalFileName },
+  { header: 'Final File Name', value: row => row.finalFileName },
+  { header: 'OneDrive Path', value: row => row.oneDrivePath },
+  { header: 'OneDrive Item ID', value: row => row.oneDriveItemId },
+  { header: 'Tags', value: row => row.tags.join('; ') },
+  { header: 'Uploaded By', value: row => row.uploadedBy },
+  { header: 'Uploaded At (UTC)', value: row => row.uploadedAt },
+  { header: 'File Size (Bytes)', value: row => row.fileSizeBytes },
+  { header: 'SHA-256', value: row => row.contentHash }
+];
+
+/**
+ * Writes the upload history to CSV or JSON for compliance audits
+ */
+export class HistoryExporter {
+  private databaseManager: DatabaseManager;
+
+  constructor(databaseManager: DatabaseManager) {
+    this.databaseManager = databaseManager;
+  }
+
+  /**
+   * Export every history row matching the filter and return how many were written
+   */
+  async exportToFile(
+    filePath: string,
+    format: HistoryExportFormat,
+    filter: FileHistoryFilter,
+    tagNames: Map<number, string>
+  ): Promise<number> {
+    // Exports always cover the full result, whatever page the UI was showing
+    const items = this.databaseManager.getFileHistory({ ...filter, limit: undefined, offset: undefined });
+    const rows = items.map(item => this.toExportRow(item, tagNames));
+
+    const content = format === 'json' ? this.formatJson(rows, filter) : this.formatCsv(rows);
+    await fs.promises.writeFile(filePath, content, 'utf-8');
+
+    console.log('[HISTORYEXPORT] Exported', rows.length, 'history rows to', filePath);
+    return rows.length;
+  }
+
+  private toExportRow(item: FileHistoryItem, tagNames: Map<number, string>): HistoryExportRow {
+    let tagIds: number[] = [];
+    try {
+      const parsed = JSON.parse(item.tags || '[]');
+      tagIds = Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+      console.warn('[HISTORYEXPORT] Unreadable tags on history row:', item.id);
+    }
+
+    const finalFileName = item.displayName || item.fileName;
+    return {
+      originalFileName: item.fileName,
+      finalFileName,
+      // Rows recorded before the drive path was stored only know the folder chosen in the app
+      oneDrivePath: item.oneDrivePath || [item.folderPath, finalFileName].filter(part => part).join('/'),
+      oneDriveItemId: item.oneDriveItemId || '',
+      tags: tagIds.map(tagId => tagNames.get(tagId) || `Tag ${tagId}`),
+      uploadedBy: item.uploadedBy || '',
+      uploadedAt: this.toIsoTimestamp(item.processedAt),
+      fileSizeBytes: item.fileSize,
+      contentHash: item.contentHash || ''
+    };
+  }
+
+  private formatCsv(rows: HistoryExportRow[]): string {
+    const lines = [
+      CSV_COLUMNS.map(column => this.escapeCsv(column.header)).join(','),
+      ...rows.map(row => CSV_COLUMNS.map(column => this.escapeCsv(column.value(row))).join(','))
+    ];
+    // Byte order mark so Excel opens the file as UTF-8
+    return '\uFEFF' + lines.join('\r\n') + '\r\n';
+  }
+
+  private formatJson(rows: HistoryExportRow[], filter: FileHistoryFilter): string {
+    return JSON.stringify({
+      exportedAt: new Date().toISOString(),
+      filter: {
+        search: filter.search || null,
+        fromDate: filter.fromDate || null,
+        toDate: filter.toDate || null,
+        tagIds: filter.tagIds || [],
+        folderPath: filter.folderPath || null
+      },
+      count: rows.length,
+      files: rows
+    }, null, 2);
+  }
+
+  private escapeCsv(value: string | number): string {
+    let text = String(value);
+    // Stop spreadsheet apps from evaluating file names as formulas
+    if (/^[=+\-@]/.test(text)) {
+      text = `'${text}`;
+    }
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+
+  private toIsoTimestamp(value: string): string {
+    const date = new Date(value.includes('T') ? value : value.replace(' ', 'T') + 'Z');
+    return isNaN(date.getTime()) ? value : date.toISOString();
+  }
+}
@@ -0,0 +1,58 @@
+import * as http from 'http';
+import { describe, expect, it } from 'vitest';
+import { CancellableLoopbackClient } from './loopbackClient';
+
+function get(url: string): Promise<{ status?: number; location?: string; body: string }> {
+  return new Promise((resolve, reject) => {
+    http.get(url, res => {
+      let body = '';
+      res.on('data', chunk => { body += chunk; });
+      res.on('end', () => resolve({ status: res.statusCode, location: res.headers.location, body }));
+    }).on('error', reject);
+  });
+}
+
+async function waitForRedirectUri(client: CancellableLoopbackClient): Promise<string> {
+  for (;;) {
+    try {
+      return client.getRedirectUri();
+    } catch {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+  }
+}
+
+describe('CancellableLoopbackClient', () => {
+  it('resolves with the auth code and redirects the browser away from it', async () => {
+    const client = new CancellableLoopbackClient();
+    const listening = client.listenForAuthCode('<h1>Signed in</h1>');
+    const redirectUri = await waitForRedirectUri(client);
+
+    const redirect = await get(`${redirectUri}/?code=abc&state=xyz`);
+    expect(redirect.status).toBe(302);
+    expect(redirect.location).toBe(redirectUri);
+    await expect(listening).resolves.toMatchObject({ code: 'abc', state: 'xyz' });
+
+    expect((await get(`${redirectUri}/`)).body).toBe('<h1>Signed in</h1>');
+    client.closeServer();
+  });
+
+  it('fails the pending sign-in and stops listening when cancelled', async () => {
+    const client = new CancellableLoopbackClient();
+    const listening = client.listenForAuthCode();
+    const redirectUri = await waitForRedirectUri(client);
+
+    client.cancel(new Error('timed out'));
+
+    await expect(listening).rejects.toThrow('timed out');
+    expect(() => client.getRedirectUri()).toThrow();
+    await expect(get(`${redirectUri}/?code=abc`)).rejects.toThrow();
+  });
+
+  it('fails straight away when cancelled before listening', async () => {
+    const client = new CancellableLoopbackClient();
+    client.cancel(new Error('timed out'));
+
+    await expect(client.listenForAuthCode()).rejects.toThrow('timed out');
+  });
+});
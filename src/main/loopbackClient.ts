@@ -0,0 +1,77 @@
+import * as http from 'http';
+import { ILoopbackClient } from '@azure/msal-node';
+
+type AuthorizeResponse = Awaited<ReturnType<ILoopbackClient['listenForAuthCode']>>;
+
+/**
+ * Local redirect server for browser sign-in, like MSAL's own but cancellable.
+ * MSAL waits for the browser to come back forever; cancel() closes the server
+ * and fails the pending sign-in instead.
+ */
+export class CancellableLoopbackClient implements ILoopbackClient {
+  private server: http.Server | null = null;
+  private rejectPending: ((error: Error) => void) | null = null;
+  private cancelledWith: Error | null = null;
+
+  listenForAuthCode(successTemplate?: string, errorTemplate?: string): Promise<AuthorizeResponse> {
+    if (this.cancelledWith) {
+      return Promise.reject(this.cancelledWith);
+    }
+    if (this.server) {
+      return Promise.reject(new Error('Sign-in redirect server is already running'));
+    }
+
+    return new Promise((resolve, reject) => {
+      this.rejectPending = reject;
+      this.server = http.createServer((req, res) => {
+        if (!req.url || req.url === '/') {
+          // The browser lands here after the auth code redirect below
+          res.end(successTemplate || 'Signed in. You can close this window.');
+          return;
+        }
+
+        const redirectUri = this.getRedirectUri();
+        const response = Object.fromEntries(new URL(req.url, redirectUri).searchParams) as AuthorizeResponse;
+        if (response.code) {
+          // Keep the auth code out of the browser history
+          res.writeHead(302, { location: redirectUri });
+          res.end();
+        } else {
+          res.end(errorTemplate || `Sign-in failed: ${response.error || 'no authorization code'}`);
+        }
+        this.rejectPending = null;
+        resolve(response);
+      });
+      this.server.on('error', reject);
+      this.server.listen(0, '127.0.0.1');
+    });
+  }
+
+  getRedirectUri(): string {
+    const address = this.server?.listening ? this.server.address() : null;
+    if (!address || typeof address === 'string') {
+      // MSAL polls until the server is listening
+      throw new Error('Sign-in redirect server is not listening');
+    }
+    return `http://localhost:${address.port}`;
+  }
+
+  closeServer(): void {
+    if (!this.server) return;
+
+    this.server.close();
+    this.server.closeAllConnections();
+    this.server.unref();
+    this.server = null;
+  }
+
+  /**
+   * Stop waiting for the browser: close the server and fail the sign-in with error
+   */
+  cancel(error: Error): void {
+    this.cancelledWith = error;
+    this.closeServer();
+    this.rejectPending?.(error);
+    this.rejectPending = null;
+  }
+}
@@ -2,13 +2,21 @@ import { app, BrowserWindow, ipcMain, dialog, shell, Tray, Menu, nativeImage } f
 import { autoUpdater } from 'electron-updater';
 import * as path from 'path';
 import * as fs from 'fs';
-import { DatabaseManager } from './databaseManager';
+import { DatabaseManager, ProcessingQueueItem, ProcessingQueueUpdate, FileHistoryFilter, DatabaseHealth, DatabaseRepairAction } from './databaseManager';
 import { FileWatcher } from './fileWatcher';
 import { ApiClient } from './apiClient';
 import { NotificationManager } from './notificationManager';
-import { AuthService, AuthConfig } from './authService';
+import { AuthService, AuthConfig, AccountSummary } from './authService';
+import { ThrottleState } from './graphClient';
+import { HistoryExporter, HistoryExportFormat } from './historyExporter';
+import { BackupManager } from './backupManager';
+import { TagCategoryCache } from './tagCategoryCache';
+import { ConnectivityMonitor, ConnectivityState } from './connectivityMonitor';
 import { OneDriveService } from './oneDriveService';
+import { UploadWorker, UploadProgressEvent } from './uploadWorker';
 import { getEnvironmentConfig, DEFAULT_ENVIRONMENT } from '../config/environment';
+import { resolveAccountPathMappings } from '../config/pathMapping';
+import { evaluateRules, RoutingRule, RuleInput } from '../config/routingRules';
 
 class BrokerDesktop {
   private mainWindow: BrowserWindow | null = null;
@@ -19,29 +27,67 @@ class BrokerDesktop {
   private tray: Tray | null = null;
   private isQuitting = false;
   private authService: AuthService | null = null;
-  private oneDriveService: OneDriveService | null = null;
+  /** One OneDrive service per signed-in account, created when first needed */
+  private oneDriveServices: Map<string, OneDriveService> = new Map();
+  private uploadWorker: UploadWorker | null = null;
+  private historyExporter: HistoryExporter;
+  private backupManager: BackupManager;
+  private tagCategoryCache: TagCategoryCache;
+  private connectivityMonitor: ConnectivityMonitor;
   private currentApiUrl: string = getEnvironmentConfig().apiBaseUrl;
 
   constructor() {
     this.databaseManager = new DatabaseManager();
-    this.apiClient = new ApiClient();
+    this.apiClient = new ApiClient({
+      getAccessToken: async (forceRefresh) => {
+        if (!this.authService) {
+          throw new Error('Authentication service unavailable');
+        }
+        return this.authService.getApiAccessToken(await this.getApiScope(), forceRefresh);
+      }
+    });
+    this.apiClient.on('auth-required', () => {
+      this.sendToAllWindows('api-auth-required');
+    });
     this.notificationManager = new NotificationManager();
+    this.historyExporter = new HistoryExporter(this.databaseManager);
+    this.connectivityMonitor = new ConnectivityMonitor({ getApiUrl: () => this.currentApiUrl });
+    this.connectivityMonitor.on('changed', (state: ConnectivityState) => {
+      this.sendToAllWindows('connectivity-changed', state);
+      this.updateTrayMenu();
+    });
+    this.tagCategoryCache = new TagCategoryCache(this.apiClient, this.databaseManager);
+    this.tagCategoryCache.on('updated', (result) => {
+      // Ignore refreshes that finish after the user switched environments
+      if (result.apiUrl === this.currentApiUrl) {
+        this.sendToAllWindows('tag-categories-updated', result);
+      }
+    });
+    this.backupManager = new BackupManager({
+      databaseManager: this.databaseManager,
+      getRetentionCount: async () => (await this.getPreferences()).backupRetentionCount
+    });
   }
 
   async initialize() {
     try {
       console.log('[MAIN] Initializing BrokerNet Desktop...');
       
-      // Initialize database (with error handling)
-      try {
-        await this.databaseManager.initialize();
-      } catch (dbError) {
-        console.warn('[MAIN] Database initialization failed, continuing without database:', dbError);
-      }
+      // Initialize database; if it cannot be opened the app runs in degraded mode
+      this.databaseManager.on('health-changed', (health: DatabaseHealth) => {
+        console.log('[MAIN] Database health:', health.status, health.error || '');
+        this.sendToAllWindows('database-health-changed', health);
+      });
+      await this.databaseManager.initialize();
+      this.backupManager.start();
+      this.connectivityMonitor.start();
       
       // Initialize authentication service
       this.initializeAuthService();
       
+      // Start the background upload worker
+      this.initializeUploadWorker();
+      
       // Check for existing authentication and auto-login
       this.checkExistingAuth();
       
@@ -73,7 +119,14 @@ class BrokerDesktop {
       };
 
       this.authService = new AuthService(config);
-      this.oneDriveService = new OneDriveService(this.authService);
+      this.authService.on('graph-throttled', (accountId: string, state: ThrottleState) => {
+        console.log('[MAIN] Graph throttling state changed:', state);
+        this.sendToAllWindows('graph-throttled', state);
+      });
+      this.authService.on('session-expired', (account: AccountSummary) => {
+        this.notificationManager.showSessionExpiredNotification(account.email || account.name);
+        this.sendToAllWindows('session-expired', account);
+      });
       
       console.log('[MAIN] Authentication service initialized with MSAL');
     } catch (error) {
@@ -81,17 +134,81 @@ class BrokerDesktop {
     }
   }
 
+  /**
+   * Get the OneDrive service for a signed-in account, or for the active one,
+   * with that account's drive and path mappings applied
+   */
+  private async getOneDriveService(accountId?: string): Promise<OneDriveService> {
+    if (!this.authService) {
+      throw new Error('OneDrive service not initialized');
+    }
+
+    const id = accountId || this.authService.getCurrentUser()?.id;
+    if (!id || !this.authService.getUser(id)) {
+      throw new Error('User not authenticated');
+    }
+
+    let service = this.oneDriveServices.get(id);
+    if (!service) {
+      service = new OneDriveService(this.authService, id);
+      this.applyAccountSettings(service, await this.getPreferences());
+      this.oneDriveServices.set(id, service);
+    }
+    return service;
+  }
+
+  private applyAccountSettings(service: OneDriveService, preferences: any) {
+    const accountId = service.getAccountId();
+    service.setPathMappings(resolveAccountPathMappings(preferences, accountId));
+    service.setPreferredDriveId(preferences?.accountSettings?.[accountId]?.driveId || null);
+  }
+
+  private initializeUploadWorker() {
+    if (!this.authService) {
+      console.warn('[MAIN] Upload worker not started - authentication service unavailable');
+      return;
+    }
+
+    this.uploadWorker = new UploadWorker({
+      databaseManager: this.databaseManager,
+      getOneDriveService: (accountId) => this.getOneDriveService(accountId),
+      authService: this.authService,
+      apiClient: this.apiClient,
+      connectivityMonitor: this.connectivityMonitor,
+      getApiUrl: () => this.currentApiUrl,
+      getMaxAttempts: async () => (await this.getPreferences()).maxUploadAttempts,
+      getRollbackOnTagFailure: async () => (await this.getPreferences()).rollbackOnTagFailure === true
+    });
+
+    this.uploadWorker.on('progress', (event: UploadProgressEvent) => {
+      this.sendToAllWindows('upload-progress', event);
+      if (event.status !== 'uploading') {
+        this.notifyQueueUpdated();
+      }
+
+      if (event.status === 'completed' || event.status === 'error') {
+        this.notificationManager.showFileProcessedNotification(event.fileName, event.status === 'completed');
+      }
+    });
+    this.uploadWorker.on('queue-changed', () => this.notifyQueueUpdated());
+
+    this.uploadWorker.start();
+  }
+
   private async checkExistingAuth() {
     try {
       if (this.authService) {
         console.log('[MAIN] Checking for existing authentication...');
-        const user = await this.authService.checkExistingAuth();
+        const preferences = await this.getPreferences();
+        const user = await this.authService.checkExistingAuth(preferences.activeAccountId);
         if (user) {
           console.log('[MAIN] Auto-login successful for user:', user.name);
           // Notify renderer process about the authenticated user
           if (this.mainWindow) {
             this.mainWindow.webContents.send('user-authenticated', user);
           }
+          this.uploadWorker?.start();
+          this.uploadWorker?.wake();
         } else {
           console.log('[MAIN] No existing authentication found');
         }
@@ -101,6 +218,40 @@ class BrokerDesktop {
     }
   }
 
+  /**
+   * Sign one account out, or all of them when none is given, and drop its
+   * cached tokens and drive. Once nobody is left signed in, cached API data
+   * is cleared and the upload worker stopped. Queued uploads stay in the
+   * queue for the next person to sign in.
+   */
+  private async signOut(accountId?: string) {
+    if (!this.authService) return;
+
+    const remainingAccounts = this.authService.getAccounts().filter(account => account.id !== accountId);
+    const signingOutEveryone = !accountId || remainingAccounts.length === 0;
+    if (signingOutEveryone) {
+      this.uploadWorker?.stop();
+    }
+
+    const signedOutIds = accountId ? [accountId] : Array.from(this.oneDriveServices.keys());
+    await this.authService.signOut(accountId);
+    for (const id of signedOutIds) {
+      this.oneDriveServices.get(id)?.reset();
+      this.oneDriveServices.delete(id);
+    }
+
+    if (!signingOutEveryone) {
+      const user = this.authService.getCurrentUser();
+      console.log('[MAIN] Account signed out, now using:', user?.name);
+      this.sendToAllWindows('user-authenticated', user);
+      return;
+    }
+
+    this.databaseManager.clearCache();
+    console.log('[MAIN] User signed out');
+    this.sendToAllWindows('user-signed-out');
+  }
+
   private createMainWindow() {
     this.mainWindow = new BrowserWindow({
       width: 1200,
@@ -157,49 +308,7 @@ class BrokerDesktop {
       const resizedIcon = trayIcon.resize({ width: 16, height: 16 });
       
       this.tray = new Tray(resizedIcon);
-      
-      // Set tooltip
-      this.tray.setToolTip('BrokerNet Desktop - File Processing');
-      
-      // Create context menu
-      const contextMenu = Menu.buildFromTemplate([
-        {
-          label: 'Open BrokerNet Desktop',
-          click: () => {
-            if (this.mainWindow) {
-              this.mainWindow.show();
-              this.mainWindow.focus();
-            }
-          }
-        },
-        {
-          label: 'Open Drop Folder',
-          click: () => {
-            this.openDropFolder();
-          }
-        },
-        {
-          label: 'Settings',
-          click: () => {
-            if (this.mainWindow) {
-              this.mainWindow.show();
-              this.mainWindow.focus();
-              // Switch to settings tab
-              this.mainWindow.webContents.send('switch-to-settings');
-            }
-          }
-        },
-        { type: 'separator' },
-        {
-          label: 'Quit',
-          click: () => {
-            this.isQuitting = true;
-            app.quit();
-          }
-        }
-      ]);
-      
-      this.tray.setContextMenu(contextMenu);
+      this.updateTrayMenu();
       
       // Double-click to show window
       this.tray.on('double-click', () => {
@@ -215,6 +324,60 @@ class BrokerDesktop {
     }
   }
 
+  /**
+   * Rebuild the tray tooltip and menu so they show the current connection state
+   */
+  private updateTrayMenu() {
+    if (!this.tray) return;
+
+    const online = this.connectivityMonitor.isOnline();
+    this.tray.setToolTip(online ? 'BrokerNet Desktop - File Processing' : 'BrokerNet Desktop - Offline, uploads paused');
+
+    const contextMenu = Menu.buildFromTemplate([
+      {
+        label: online ? '🟢 Online' : '🔴 Offline - uploads paused',
+        enabled: false
+      },
+      { type: 'separator' },
+      {
+        label: 'Open BrokerNet Desktop',
+        click: () => {
+          if (this.mainWindow) {
+            this.mainWindow.show();
+            this.mainWindow.focus();
+          }
+        }
+      },
+      {
+        label: 'Open Drop Folder',
+        click: () => {
+          this.openDropFolder();
+        }
+      },
+      {
+        label: 'Settings',
+        click: () => {
+          if (this.mainWindow) {
+            this.mainWindow.show();
+            this.mainWindow.focus();
+            // Switch to settings tab
+            this.mainWindow.webContents.send('switch-to-settings');
+          }
+        }
+      },
+      { type: 'separator' },
+      {
+        label: 'Quit',
+        click: () => {
+          this.isQuitting = true;
+          app.quit();
+        }
+      }
+    ]);
+
+    this.tray.setContextMenu(contextMenu);
+  }
+
   private async getPreferences(): Promise<any> {
     try {
       const prefsPath = path.join(app.getPath('userData'), 'preferences.json');
@@ -229,6 +392,14 @@ class BrokerDesktop {
     }
   }
 
+  /**
+   * OAuth scope requested for BrokerNet API tokens
+   */
+  private async getApiScope(): Promise<string> {
+    const preferences = await this.getPreferences();
+    return preferences.apiScope || process.env.BROKERNET_API_SCOPE || this.authService!.getDefaultApiScope();
+  }
+
   private async openDropFolder() {
     try {
       const preferences = await this.getPreferences();
@@ -243,6 +414,128 @@ class BrokerDesktop {
     }
   }
 
+  /**
+   * Persist a detected file as a processing queue row, applying the first
+   * matching routing rule, and tell the renderer
+   */
+  private async handleFileDetected(filePath: string, showNotification: boolean = true): Promise<ProcessingQueueItem | null> {
+    try {
+      const stats = await fs.promises.stat(filePath);
+      if (!stats.isFile()) {
+        return null;
+      }
+
+      const existing = this.databaseManager.findActiveQueueItemByPath(filePath);
+      if (existing) {
+        console.log('[MAIN] File already queued:', filePath);
+        return existing;
+      }
+
+      const fileName = path.basename(filePath);
+      const preferences = await this.getPreferences();
+      const rules: RoutingRule[] = preferences.routingRules || [];
+      const match = evaluateRules(rules, {
+        fileName,
+        fileSize: stats.size,
+        sourceSubfolder: preferences.dropFolderPath ? path.relative(preferences.dropFolderPath, path.dirname(filePath)) : '',
+        detectedAt: new Date()
+      });
+
+      // Auto-upload rules only apply while auto-processing is switched on
+      const autoUpload = !!match && match.autoUpload && preferences.autoProcess !== false;
+      if (match) {
+        console.log('[MAIN] File matched routing rule:', match.rule.name, autoUpload ? '(auto-upload)' : '');
+      }
+
+      const id = this.databaseManager.addToProcessingQueue({
+        filePath,
+        fileName,
+        displayName: match ? match.fileName : fileName,
+        fileSize: stats.size,
+        status: autoUpload ? 'queued' : 'pending',
+        tags: JSON.stringify(match ? match.tagIds : []),
+        folderPath: match?.targetFolder,
+        targetDriveId: match?.targetDriveId,
+        notes: match ? `Routed by rule "${match.rule.name}"` : undefined,
+        accountId: this.authService?.getCurrentUser()?.id
+      });
+      if (!id) {
+        throw new Error(`Could not save ${fileName} to the processing queue`);
+      }
+      console.log('[MAIN] Added file to processing queue:', fileName, id);
+
+      if (autoUpload) {
+        this.uploadWorker?.wake();
+      }
+
+      if (showNotification) {
+        this.notificationManager.showFileDetectedNotification(fileName, filePath);
+      }
+
+      this.mainWindow?.webContents.send('file-detected', filePath);
+      this.notifyQueueUpdated();
+      return this.databaseManager.getProcessingQueueItem(id);
+    } catch (error) {
+      console.error('[MAIN] Error adding detected file to queue:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Swap in a backup with the watcher and upload worker paused, so nothing
+   * writes to the database while its file is replaced
+   */
+  private async restoreDatabaseBackup(fileName: string) {
+    const backupPath = this.backupManager.getBackupPath(fileName);
+    console.log('[MAIN] Restoring database backup:', fileName);
+
+    const watcher = this.fileWatcher;
+    const workerWasRunning = this.uploadWorker?.isRunning() || false;
+    watcher?.stop();
+    this.uploadWorker?.stop();
+    await this.uploadWorker?.waitUntilIdle();
+
+    try {
+      return this.databaseManager.restoreBackup(backupPath);
+    } finally {
+      if (workerWasRunning) {
+        this.uploadWorker?.start();
+      }
+      if (watcher && this.fileWatcher === watcher) {
+        await watcher.start();
+        await this.queueFilesInDropFolder();
+      }
+      this.notifyQueueUpdated();
+    }
+  }
+
+  /**
+   * Queue files that arrived in the drop folder while the watcher was paused
+   */
+  private async queueFilesInDropFolder() {
+    const preferences = await this.getPreferences();
+    if (!preferences.dropFolderPath) return;
+
+    try {
+      const fileNames = await fs.promises.readdir(preferences.dropFolderPath);
+      for (const fileName of fileNames) {
+        await this.handleFileDetected(path.join(preferences.dropFolderPath, fileName), false);
+      }
+    } catch (error) {
+      console.error('[MAIN] Error scanning drop folder:', error);
+    }
+  }
+
+  private notifyQueueUpdated() {
+    this.sendToAllWindows('queue-updated');
+  }
+
+  private sendToAllWindows(channel: string, ...args: any[]) {
+    BrowserWindow.getAllWindows().forEach(window => {
+      window.webContents.send(channel, ...args);
+    });
+  }
+
   private setupIpcHandlers() {
     // File processing
     ipcMain.handle('process-file', async (event, filePath: string, tags: number[], folderPath?: string) => {
@@ -297,6 +590,9 @@ class BrokerDesktop {
         console.log('[MAIN:IPC] Preferences to save:', preferences);
         fs.writeFileSync(prefsPath, JSON.stringify(preferences, null, 2));
         console.log('[MAIN:IPC] Preferences saved successfully');
+        for (const service of this.oneDriveServices.values()) {
+          this.applyAccountSettings(service, preferences);
+        }
         return true;
       } catch (error) {
         console.error('[MAIN:IPC] Error saving preferences:', error);
@@ -317,13 +613,7 @@ class BrokerDesktop {
           folderPath,
           (filePath: string) => {
             console.log('[MAIN:IPC] File detected:', filePath);
-            
-            // Show Windows notification
-            const fileName = path.basename(filePath);
-            this.notificationManager.showFileDetectedNotification(fileName, filePath);
-            
-            // Notify renderer process
-            this.mainWindow?.webContents.send('file-detected', filePath);
+            this.handleFileDetected(filePath);
           }
         );
 
@@ -368,7 +658,7 @@ class BrokerDesktop {
               preferences.dropFolderPath,
               (filePath: string) => {
                 console.log('[MAIN:IPC] File detected:', filePath);
-                this.mainWindow?.webContents.send('file-detected', filePath);
+                this.handleFileDetected(filePath);
               }
             );
             await this.fileWatcher.start();
@@ -382,27 +672,262 @@ class BrokerDesktop {
       }
     });
 
+    // Processing queue
+    ipcMain.handle('get-processing-queue', async () => {
+      return this.databaseManager.getProcessingQueue();
+    });
+
+    ipcMain.handle('add-files-to-queue', async (event, filePaths: string[]) => {
+      try {
+        console.log('[MAIN:IPC] Adding files to processing queue:', filePaths.length);
+        for (const filePath of filePaths) {
+          await this.handleFileDetected(filePath, false);
+        }
+        return this.databaseManager.getProcessingQueue();
+      } catch (error) {
+        console.error('[MAIN:IPC] Error adding files to processing queue:', error);
+        return [];
+      }
+    });
+
+    ipcMain.handle('update-queue-item', async (event, id: number, updates: ProcessingQueueUpdate) => {
+      return this.databaseManager.updateQueueItem(id, updates);
+    });
+
+    ipcMain.handle('update-queue-status', async (event, id: number, status: ProcessingQueueItem['status'], errorMessage?: string) => {
+      const success = this.databaseManager.updateProcessingStatus(id, status, errorMessage);
+      this.notifyQueueUpdated();
+      return success;
+    });
+
+    ipcMain.handle('enqueue-upload', async (event, ids: number[]) => {
+      try {
+        console.log('[MAIN:IPC] Queueing uploads:', ids);
+        this.databaseManager.queueForUpload(ids, this.authService?.getCurrentUser()?.id);
+        this.notifyQueueUpdated();
+        this.uploadWorker?.wake();
+        return true;
+      } catch (error) {
+        console.error('[MAIN:IPC] Error queueing uploads:', error);
+        return false;
+      }
+    });
+
+    ipcMain.handle('retry-failed-uploads', async () => {
+      try {
+        const ids = this.databaseManager.getFailedQueueItemIds();
+        console.log('[MAIN:IPC] Retrying failed uploads:', ids);
+        const retried = this.databaseManager.queueForUpload(ids, this.authService?.getCurrentUser()?.id);
+        this.notifyQueueUpdated();
+        this.uploadWorker?.wake();
+        return retried;
+      } catch (error) {
+        console.error('[MAIN:IPC] Error retrying failed uploads:', error);
+        return 0;
+      }
+    });
+
+    ipcMain.handle('remove-from-queue', async (event, ids: number[]) => {
+      try {
+        console.log('[MAIN:IPC] Removing from processing queue:', ids);
+        ids.forEach(id => this.databaseManager.removeFromProcessingQueue(id));
+        this.notifyQueueUpdated();
+        return true;
+      } catch (error) {
+        console.error('[MAIN:IPC] Error removing from processing queue:', error);
+        return false;
+      }
+    });
+
+    // Database health
+    ipcMain.handle('get-database-health', async () => {
+      return this.databaseManager.getHealth();
+    });
+
+    ipcMain.handle('repair-database', async (event, action: DatabaseRepairAction) => {
+      const result = await this.databaseManager.repair(action);
+      if (result.success) {
+        this.notifyQueueUpdated();
+        this.uploadWorker?.wake();
+      }
+      return result;
+    });
+
+    // Connectivity
+    ipcMain.handle('get-connectivity-state', async () => {
+      return this.connectivityMonitor.getState();
+    });
+
+    ipcMain.handle('check-connectivity', async () => {
+      return this.connectivityMonitor.checkNow();
+    });
+
+    // Database backups
+    ipcMain.handle('list-database-backups', async () => {
+      return this.backupManager.listBackups();
+    });
+
+    ipcMain.handle('create-database-backup', async () => {
+      try {
+        const backup = await this.backupManager.createBackup();
+        return { success: true, backup };
+      } catch (error) {
+        console.error('[MAIN:IPC] Error creating database backup:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
+
+    ipcMain.handle('restore-database-backup', async (event, fileName: string) => {
+      try {
+        return await this.restoreDatabaseBackup(fileName);
+      } catch (error) {
+        console.error('[MAIN:IPC] Error restoring database backup:', error);
+        return { success: false, message: error instanceof Error ? error.message : String(error) };
+      }
+    });
+
+    // File history
+    ipcMain.handle('get-file-history', async (event, filter: FileHistoryFilter) => {
+      return this.databaseManager.getFileHistory(filter);
+    });
+
+    ipcMain.handle('get-file-history-folders', async () => {
+      return this.databaseManager.getFileHistoryFolders();
+    });
+
+    ipcMain.handle('export-file-history', async (event, filter: FileHistoryFilter, format: HistoryExportFormat) => {
+      try {
+        const extension = format === 'json' ? 'json' : 'csv';
+        const result = await dialog.showSaveDialog(this.mainWindow!, {
+          title: 'Export Upload History',
+          defaultPath: path.join(app.getPath('documents'), `upload-history-${new Date().toISOString().slice(0, 10)}.${extension}`),
+          filters: [
+            format === 'json'
+              ? { name: 'JSON', extensions: ['json'] }
+              : { name: 'CSV', extensions: ['csv'] }
+          ]
+        });
+
+        if (result.canceled || !result.filePath) {
+          return { success: false, canceled: true };
+        }
+
+        // Tag names come from the backend or its cached copy; fall back to IDs if neither is available
+        const tagNames = new Map<number, string>();
+        try {
+          const { categories } = await this.tagCategoryCache.get(this.currentApiUrl);
+          categories.forEach((category: any) => {
+            (category.tags || []).forEach((tag: any) => tagNames.set(tag.id, tag.name));
+          });
+        } catch (tagError) {
+          console.warn('[MAIN:IPC] Exporting history without tag names:', tagError);
+        }
+
+        const count = await this.historyExporter.exportToFile(result.filePath, format, filter, tagNames);
+        return { success: true, filePath: result.filePath, count };
+      } catch (error) {
+        console.error('[MAIN:IPC] Error exporting file history:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
+
+    // Routing rules
+    ipcMain.handle('test-routing-rules', async (event, rules: RoutingRule[], sample: { fileName?: string; filePath?: string }) => {
+      try {
+        const preferences = await this.getPreferences();
+        let input: RuleInput;
+
+        if (sample.filePath) {
+          // A real file from the drop folder, so size and subfolder are known
+          const stats = await fs.promises.stat(sample.filePath);
+          input = {
+            fileName: path.basename(sample.filePath),
+            fileSize: stats.size,
+            sourceSubfolder: preferences.dropFolderPath ? path.relative(preferences.dropFolderPath, path.dirname(sample.filePath)) : ''
+          };
+        } else {
+          // A typed name may include a subfolder, e.g. "Scans/loan.pdf"
+          const typed = (sample.fileName || '').replace(/\\/g, '/');
+          const slashIndex = typed.lastIndexOf('/');
+          input = {
+            fileName: typed.substring(slashIndex + 1),
+            sourceSubfolder: slashIndex === -1 ? '' : typed.substring(0, slashIndex)
+          };
+        }
+
+        return { input, match: evaluateRules(rules, input) };
+      } catch (error) {
+        console.error('[MAIN:IPC] Error testing routing rules:', error);
+        throw error;
+      }
+    });
+
     // Environment switching
     ipcMain.handle('set-api-url', async (event, apiUrl: string) => {
       console.log('[MAIN:IPC] Setting API URL to:', apiUrl);
       this.currentApiUrl = apiUrl;
+      // The new environment's API may be reachable when the old one was not, or vice versa
+      this.connectivityMonitor.checkNow();
       return { success: true };
     });
 
     // Tag categories
     ipcMain.handle('get-tag-categories', async () => {
+      const apiUrl = this.currentApiUrl;
       try {
-        const apiUrl = this.currentApiUrl;
-        console.log('[MAIN:IPC] Fetching tag categories from:', apiUrl);
-        const categories = await this.apiClient.getTagCategories(apiUrl);
-        console.log('[MAIN:IPC] Retrieved', categories.length, 'tag categories');
-        return categories;
+        console.log('[MAIN:IPC] Getting tag categories for:', apiUrl);
+        const result = await this.tagCategoryCache.get(apiUrl);
+        console.log('[MAIN:IPC] Returning', result.categories.length, 'tag categories', result.isStale ? '(stale)' : '');
+        return result;
       } catch (error) {
         console.error('[MAIN:IPC] Error fetching tag categories:', error);
-        return [];
+        return { categories: [], fetchedAt: null, isStale: true, refreshFailed: true, apiUrl };
+      }
+    });
+
+    // Tag associations
+    ipcMain.handle('create-file-tag-associations', async (event, fileId: string, tagIds: number[], driveId?: string, notes?: string) => {
+      try {
+        // Files are in the active account's default drive unless the caller says otherwise
+        const targetDriveId = driveId || await (await this.getOneDriveService()).getDefaultDriveId();
+        const associations = await this.apiClient.createFileTagAssociations(
+          this.currentApiUrl,
+          tagIds.map(tagId => ({
+            file_id: fileId,
+            tag_id: tagId,
+            item_type: 'file' as const,
+            drive_id: targetDriveId,
+            notes
+          }))
+        );
+        return { success: true, associations };
+      } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
+
+    ipcMain.handle('get-file-tag-associations', async (event, fileId: string) => {
+      try {
+        const associations = await this.apiClient.getFileTagAssociations(this.currentApiUrl, fileId);
+        return { success: true, associations };
+      } catch (error) {
+        return { success: false, associations: [], error: error instanceof Error ? error.message : String(error) };
+      }
+    });
+
+    ipcMain.handle('delete-file-tag-association', async (event, associationId: number) => {
+      try {
+        await this.apiClient.deleteFileTagAssociation(this.currentApiUrl, associationId);
+        return { success: true };
+      } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
       }
     });
 
+    ipcMain.handle('check-api-health', async (event, apiUrl?: string) => {
+      return this.apiClient.checkHealth(apiUrl || this.currentApiUrl);
+    });
+
     // OneDrive folder selection
     ipcMain.handle('select-onedrive-folder', async (event, defaultPath?: string) => {
       try {
@@ -571,9 +1096,12 @@ class BrokerDesktop {
           throw new Error('Authentication service not initialized');
         }
         
+        const preferences = await this.getPreferences();
         console.log('[MAIN:IPC] Starting MSAL authentication...');
-        const userInfo = await this.authService.authenticate();
+        const userInfo = await this.authService.authenticate(preferences.signInMethod || 'auto');
         console.log('[MAIN:IPC] User authenticated:', userInfo.name);
+        this.uploadWorker?.start();
+        this.uploadWorker?.wake();
         return userInfo;
       } catch (error) {
         console.error('[MAIN:IPC] Error authenticating user:', error);
@@ -595,9 +1123,30 @@ class BrokerDesktop {
       }
     });
 
-    ipcMain.handle('sign-out-user', async () => {
+    ipcMain.handle('get-accounts', async () => {
+      return this.authService ? this.authService.getAccounts() : [];
+    });
+
+    ipcMain.handle('switch-account', async (event, accountId: string) => {
+      try {
+        if (!this.authService) {
+          throw new Error('Authentication service not initialized');
+        }
+
+        console.log('[MAIN:IPC] Switching account');
+        const user = this.authService.switchAccount(accountId);
+        this.uploadWorker?.wake();
+        return user;
+      } catch (error) {
+        console.error('[MAIN:IPC] Error switching account:', error);
+        throw error;
+      }
+    });
+
+    ipcMain.handle('sign-out-user', async (event, accountId?: string) => {
       try {
-        console.log('[MAIN:IPC] Sign out requested');
+        console.log('[MAIN:IPC] Sign out requested', accountId ? 'for one account' : 'for all accounts');
+        await this.signOut(accountId);
         return true;
       } catch (error) {
         console.error('[MAIN:IPC] Error signing out user:', error);
@@ -608,27 +1157,31 @@ class BrokerDesktop {
     // OneDrive handlers - using MSAL authenticated service
     ipcMain.handle('get-onedrive-drives', async () => {
       try {
-        if (!this.oneDriveService) {
-          throw new Error('OneDrive service not initialized');
-        }
-        
-        console.log('[MAIN:IPC] Getting OneDrive drives via MSAL...');
-        const drives = await this.oneDriveService.getDefaultDrive();
-        return [drives]; // Return as array for consistency
+        const oneDriveService = await this.getOneDriveService();
+        console.log('[MAIN:IPC] Listing OneDrive and SharePoint drives...');
+        return await oneDriveService.listDriveTargets();
       } catch (error) {
         console.error('[MAIN:IPC] Error getting OneDrive drives:', error);
         throw error;
       }
     });
 
+    ipcMain.handle('request-sharepoint-access', async () => {
+      try {
+        console.log('[MAIN:IPC] Requesting SharePoint access...');
+        await this.authService?.requestSharePointAccess();
+        return { success: true };
+      } catch (error) {
+        console.error('[MAIN:IPC] Error requesting SharePoint access:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
+
     ipcMain.handle('upload-to-onedrive', async (event, filePath: string, fileName: string, folderPath?: string) => {
       try {
-        if (!this.oneDriveService) {
-          throw new Error('OneDrive service not initialized');
-        }
-        
+        const oneDriveService = await this.getOneDriveService();
         console.log('[MAIN:IPC] Uploading file to OneDrive via MSAL:', fileName);
-        const result = await this.oneDriveService.uploadFile(filePath, fileName, folderPath);
+        const result = await oneDriveService.uploadFile(filePath, fileName, folderPath);
         console.log('[MAIN:IPC] File uploaded successfully:', result.name);
         return result;
       } catch (error) {
@@ -639,12 +1192,9 @@ class BrokerDesktop {
 
     ipcMain.handle('find-onedrive-folder', async (event, folderPath: string) => {
       try {
-        if (!this.oneDriveService) {
-          throw new Error('OneDrive service not initialized');
-        }
-        
+        const oneDriveService = await this.getOneDriveService();
         console.log('[MAIN:IPC] Finding OneDrive folder via MSAL:', folderPath);
-        const folder = await this.oneDriveService.findFolderByPath(folderPath);
+        const folder = await oneDriveService.findFolderByPath(folderPath);
         return folder;
       } catch (error) {
         console.error('[MAIN:IPC] Error finding OneDrive folder:', error);
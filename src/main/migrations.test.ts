@@ -0,0 +1,189 @@
+import Database from 'better-sqlite3';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MIGRATIONS, SCHEMA_VERSION, runMigrations } from './migrations';
+
+// Tables as the app created them before schema versioning (user_version 0)
+const UNVERSIONED_SCHEMA = `
+  CREATE TABLE processing_queue (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    file_path TEXT NOT NULL,
+    file_name TEXT NOT NULL,
+    file_size INTEGER NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending',
+    tags TEXT,
+    folder_path TEXT,
+    entity_id INTEGER,
+    transaction_id INTEGER,
+    stage_key TEXT,
+    notes TEXT,
+    error_message TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+
+  CREATE TABLE file_history (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    file_name TEXT NOT NULL,
+    file_path TEXT NOT NULL,
+    file_size INTEGER NOT NULL,
+    tags TEXT,
+    folder_path TEXT,
+    entity_id INTEGER,
+    transaction_id INTEGER,
+    stage_key TEXT,
+    notes TEXT,
+    processed_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+
+  CREATE TABLE cache (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL,
+    expires_at DATETIME NOT NULL
+  );
+`;
+
+const QUEUE_COLUMNS = [
+  'id', 'file_path', 'file_name', 'file_size', 'status', 'tags', 'folder_path', 'entity_id',
+  'transaction_id', 'stage_key', 'notes', 'error_message', 'created_at', 'updated_at',
+  'display_name', 'upload_session_url', 'upload_offset', 'attempt_count', 'next_retry_at',
+  'processing_step', 'onedrive_item_id', 'onedrive_drive_id', 'onedrive_path', 'onedrive_web_url',
+  'content_hash', 'account_id', 'target_drive_id'
+];
+
+const HISTORY_COLUMNS = [
+  'id', 'file_name', 'file_path', 'file_size', 'tags', 'folder_path', 'entity_id', 'transaction_id',
+  'stage_key', 'notes', 'processed_at', 'display_name', 'onedrive_item_id', 'web_url', 'uploaded_by',
+  'drive_id', 'onedrive_path', 'content_hash'
+];
+
+function columnNames(db: Database.Database, table: string): string[] {
+  return (db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]).map(column => column.name);
+}
+
+function indexNames(db: Database.Database): string[] {
+  return (db.prepare("SELECT name FROM sqlite_master WHERE type = 'index' AND name LIKE 'idx_%'").all() as { name: string }[])
+    .map(index => index.name);
+}
+
+/** A database as a build that stopped at the given schema version left it */
+function databaseAtVersion(version: number): Database.Database {
+  const db = new Database(':memory:');
+  if (version === 0) {
+    db.exec(UNVERSIONED_SCHEMA);
+  } else {
+    runMigrations(db, MIGRATIONS.filter(migration => migration.version <= version));
+  }
+  db.prepare('INSERT INTO processing_queue (file_path, file_name, file_size) VALUES (?, ?, ?)')
+    .run('C:\\Drop\\report.pdf', 'report.pdf', 1024);
+  return db;
+}
+
+describe('runMigrations', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('has contiguous versions ending at SCHEMA_VERSION', () => {
+    expect(MIGRATIONS.map(migration => migration.version)).toEqual(MIGRATIONS.map((_, index) => index + 1));
+    expect(SCHEMA_VERSION).toBe(8);
+  });
+
+  it('creates the latest schema in an empty database', () => {
+    const db = new Database(':memory:');
+    expect(runMigrations(db)).toBe(SCHEMA_VERSION);
+    expect(db.pragma('user_version', { simple: true })).toBe(SCHEMA_VERSION);
+    expect(columnNames(db, 'processing_queue')).toEqual(QUEUE_COLUMNS);
+    expect(columnNames(db, 'file_history')).toEqual(HISTORY_COLUMNS);
+    expect(columnNames(db, 'cache')).toEqual(['key', 'value', 'expires_at']);
+    db.close();
+  });
+
+  for (let version = 0; version < SCHEMA_VERSION; version++) {
+    it(`upgrades a v${version} database to v${SCHEMA_VERSION} and keeps its rows`, () => {
+      const db = databaseAtVersion(version);
+      expect(db.pragma('user_version', { simple: true })).toBe(version);
+
+      expect(runMigrations(db)).toBe(SCHEMA_VERSION);
+
+      expect(db.pragma('user_version', { simple: true })).toBe(SCHEMA_VERSION);
+      expect(columnNames(db, 'processing_queue')).toEqual(QUEUE_COLUMNS);
+      expect(columnNames(db, 'file_history')).toEqual(HISTORY_COLUMNS);
+      expect(indexNames(db)).toEqual(expect.arrayContaining([
+        'idx_processing_queue_status',
+        'idx_file_history_processed_at'
+      ]));
+
+      const row = db.prepare('SELECT * FROM processing_queue').get() as Record<string, unknown>;
+      expect(row).toMatchObject({
+        file_name: 'report.pdf',
+        status: 'pending',
+        upload_offset: 0,
+        attempt_count: 0,
+        processing_step: 'upload',
+        account_id: null,
+        target_drive_id: null
+      });
+      db.close();
+    });
+  }
+
+  it('upgrades an unversioned database that already has some later columns', () => {
+    const db = new Database(':memory:');
+    db.exec(UNVERSIONED_SCHEMA);
+    db.exec(`
+      ALTER TABLE processing_queue ADD COLUMN display_name TEXT;
+      ALTER TABLE processing_queue ADD COLUMN attempt_count INTEGER NOT NULL DEFAULT 0;
+      ALTER TABLE file_history ADD COLUMN web_url TEXT;
+    `);
+
+    expect(runMigrations(db)).toBe(SCHEMA_VERSION);
+    expect(columnNames(db, 'processing_queue')).toEqual(expect.arrayContaining(QUEUE_COLUMNS));
+    expect(columnNames(db, 'file_history')).toEqual(expect.arrayContaining(HISTORY_COLUMNS));
+    db.close();
+  });
+
+  it('does nothing when the database is already current', () => {
+    const db = databaseAtVersion(SCHEMA_VERSION);
+    const log = vi.mocked(console.log);
+    log.mockClear();
+
+    expect(runMigrations(db)).toBe(SCHEMA_VERSION);
+    expect(log).not.toHaveBeenCalled();
+    db.close();
+  });
+
+  it('leaves a database written by a newer build alone', () => {
+    const db = databaseAtVersion(SCHEMA_VERSION);
+    db.pragma(`user_version = ${SCHEMA_VERSION + 1}`);
+
+    expect(runMigrations(db)).toBe(SCHEMA_VERSION + 1);
+    expect(db.pragma('user_version', { simple: true })).toBe(SCHEMA_VERSION + 1);
+    db.close();
+  });
+
+  it('stops at the last migration that applied cleanly', () => {
+    const db = databaseAtVersion(6);
+    const failing = [
+      ...MIGRATIONS.filter(migration => migration.version <= 7),
+      {
+        version: 8,
+        description: 'Broken migration',
+        up: (target: Database.Database) => {
+          target.exec('ALTER TABLE processing_queue ADD COLUMN target_drive_id TEXT');
+          throw new Error('boom');
+        }
+      }
+    ];
+
+    expect(() => runMigrations(db, failing)).toThrow('boom');
+    expect(db.pragma('user_version', { simple: true })).toBe(7);
+    expect(columnNames(db, 'processing_queue')).toContain('account_id');
+    expect(columnNames(db, 'processing_queue')).not.toContain('target_drive_id');
+    db.close();
+  });
+});
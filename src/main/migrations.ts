@@ -0,0 +1,165 @@
+import Database from 'better-sqlite3';
+
+export interface Migration {
+  version: number;
+  description: string;
+  up: (db: Database.Database) => void;
+}
+
+/**
+ * Add a column unless it is already there. Databases created before schema
+ * versioning may already have some of the columns later migrations add.
+ */
+function addColumn(db: Database.Database, table: string, column: string, definition: string): void {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some(existing => existing.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+/**
+ * Schema changes in the order they were introduced. Never edit a migration that
+ * has shipped; add a new one with the next version number instead.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Create processing queue, file history and cache tables',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS processing_queue (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          file_path TEXT NOT NULL,
+          file_name TEXT NOT NULL,
+          file_size INTEGER NOT NULL,
+          status TEXT NOT NULL DEFAULT 'pending',
+          tags TEXT,
+          folder_path TEXT,
+          entity_id INTEGER,
+          transaction_id INTEGER,
+          stage_key TEXT,
+          notes TEXT,
+          error_message TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE TABLE IF NOT EXISTS file_history (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          file_name TEXT NOT NULL,
+          file_path TEXT NOT NULL,
+          file_size INTEGER NOT NULL,
+          tags TEXT,
+          folder_path TEXT,
+          entity_id INTEGER,
+          transaction_id INTEGER,
+          stage_key TEXT,
+          notes TEXT,
+          processed_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE TABLE IF NOT EXISTS cache (
+          key TEXT PRIMARY KEY,
+          value TEXT NOT NULL,
+          expires_at DATETIME NOT NULL
+        );
+      `);
+    }
+  },
+  {
+    version: 2,
+    description: 'Store display names and resumable upload sessions on queue items',
+    up: (db) => {
+      addColumn(db, 'processing_queue', 'display_name', 'TEXT');
+      addColumn(db, 'processing_queue', 'upload_session_url', 'TEXT');
+      addColumn(db, 'processing_queue', 'upload_offset', 'INTEGER NOT NULL DEFAULT 0');
+    }
+  },
+  {
+    version: 3,
+    description: 'Track upload attempts and retry times on queue items',
+    up: (db) => {
+      addColumn(db, 'processing_queue', 'attempt_count', 'INTEGER NOT NULL DEFAULT 0');
+      addColumn(db, 'processing_queue', 'next_retry_at', 'DATETIME');
+    }
+  },
+  {
+    version: 4,
+    description: 'Record OneDrive details, uploader and content hash in file history',
+    up: (db) => {
+      addColumn(db, 'file_history', 'display_name', 'TEXT');
+      addColumn(db, 'file_history', 'onedrive_item_id', 'TEXT');
+      addColumn(db, 'file_history', 'web_url', 'TEXT');
+      addColumn(db, 'file_history', 'uploaded_by', 'TEXT');
+      addColumn(db, 'file_history', 'drive_id', 'TEXT');
+      addColumn(db, 'file_history', 'onedrive_path', 'TEXT');
+      addColumn(db, 'file_history', 'content_hash', 'TEXT');
+    }
+  },
+  {
+    version: 5,
+    description: 'Index queue status and history dates',
+    up: (db) => {
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_processing_queue_status ON processing_queue (status, next_retry_at);
+        CREATE INDEX IF NOT EXISTS idx_file_history_processed_at ON file_history (processed_at);
+      `);
+    }
+  },
+  {
+    version: 6,
+    description: 'Track processing steps and the uploaded OneDrive item on queue items',
+    up: (db) => {
+      addColumn(db, 'processing_queue', 'processing_step', "TEXT NOT NULL DEFAULT 'upload'");
+      addColumn(db, 'processing_queue', 'onedrive_item_id', 'TEXT');
+      addColumn(db, 'processing_queue', 'onedrive_drive_id', 'TEXT');
+      addColumn(db, 'processing_queue', 'onedrive_path', 'TEXT');
+      addColumn(db, 'processing_queue', 'onedrive_web_url', 'TEXT');
+      addColumn(db, 'processing_queue', 'content_hash', 'TEXT');
+    }
+  },
+  {
+    version: 7,
+    description: 'Record which Microsoft account uploads each queue item',
+    up: (db) => {
+      addColumn(db, 'processing_queue', 'account_id', 'TEXT');
+    }
+  },
+  {
+    version: 8,
+    description: 'Let queue items name the drive they are uploaded to',
+    up: (db) => {
+      addColumn(db, 'processing_queue', 'target_drive_id', 'TEXT');
+    }
+  }
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Bring the database up to SCHEMA_VERSION using SQLite's user_version to record
+ * progress. Each migration runs in its own transaction, so a failure leaves the
+ * database at the last version that applied cleanly. Returns the final version.
+ */
+export function runMigrations(db: Database.Database, migrations: Migration[] = MIGRATIONS): number {
+  const currentVersion = db.pragma('user_version', { simple: true }) as number;
+  const latestVersion = migrations.length > 0 ? migrations[migrations.length - 1].version : 0;
+
+  if (currentVersion > latestVersion) {
+    // Written by a newer build; its extra columns are ignored by this one
+    console.warn('[DATABASE] Database schema version', currentVersion, 'is newer than this app supports (', latestVersion, ')');
+    return currentVersion;
+  }
+
+  for (const migration of migrations) {
+    if (migration.version <= currentVersion) continue;
+
+    console.log(`[DATABASE] Applying migration ${migration.version}: ${migration.description}`);
+    db.transaction(() => {
+      migration.up(db);
+      db.pragma(`user_version = ${migration.version}`);
+    })();
+  }
+
+  return Math.max(currentVersion, latestVersion);
+}
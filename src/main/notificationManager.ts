@@ -75,6 +75,15 @@ export class NotificationManager {
     this.showNotification(title, body);
   }
 
+  showSessionExpiredNotification(accountName: string): void {
+    this.showNotification(
+      'Sign-in Required',
+      `Your Microsoft sign-in for ${accountName} has expired. Uploads are paused until you sign in again.`,
+      undefined,
+      () => this.focusMainWindow()
+    );
+  }
+
   showFileDetectedNotification(fileName: string, filePath?: string): void {
     this.showNotification(
       'New File Detected',
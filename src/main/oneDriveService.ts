@@ -1,5 +1,6 @@
 import { AuthService, UserInfo } from './authService';
-import axios from 'axios';
+import * as fs from 'fs';
+import { PathMapping, isLocalPath, localToRemote, normalizeRemotePath, joinRemotePath } from '../config/pathMapping';
 
 export interface OneDriveFile {
   id: string;
@@ -8,6 +9,9 @@ export interface OneDriveFile {
   size: number;
   createdDateTime: string;
   lastModifiedDateTime: string;
+  driveId?: string;
+  /** Path of the item inside its drive, e.g. "Clients/Loans/Pack.pdf" */
+  path?: string;
 }
 
 export interface OneDriveFolder {
@@ -18,52 +22,146 @@ export interface OneDriveFolder {
   lastModifiedDateTime: string;
 }
 
+/** A drive files can be uploaded to: the user's OneDrive or a SharePoint document library */
+export interface DriveTarget {
+  id: string;
+  name: string;
+  driveType?: string;
+  source: 'onedrive' | 'sharepoint';
+  /** SharePoint site the library belongs to */
+  siteId?: string;
+  siteName?: string;
+  webUrl?: string;
+}
+
+export interface UploadSessionState {
+  uploadUrl: string;
+  nextOffset: number;
+}
+
+export interface UploadOptions {
+  /** Session saved by a previous, interrupted upload of the same file */
+  resumeSession?: UploadSessionState | null;
+  /** Called whenever the session or its next expected offset changes, and with null once finished */
+  onSessionUpdate?: (session: UploadSessionState | null) => void;
+  /** Called as bytes are sent, with the total uploaded so far */
+  onProgress?: (bytesUploaded: number, totalBytes: number) => void;
+  /** Drive to upload to instead of the default one; a local folder path still uses its mapping's drive */
+  driveId?: string;
+}
+
+// Graph requires session chunks to be multiples of 320 KiB
+const UPLOAD_CHUNK_SIZE = 320 * 1024 * 32; // 10 MiB
+const SIMPLE_UPLOAD_LIMIT = 4 * 1024 * 1024; // Graph simple upload limit
+const CHUNK_RETRY_ATTEMPTS = 3;
+
+/**
+ * OneDrive operations for one signed-in account. Each account has its own
+ * instance so its drive and path mappings are kept apart from the others.
+ */
 export class OneDriveService {
   private authService: AuthService;
+  private accountId: string;
   private currentDriveId: string | null = null;
+  /** Drive the user chose for this account; guessed when unset */
+  private preferredDriveId: string | null = null;
+  private pathMappings: PathMapping[] = [];
 
-  constructor(authService: AuthService) {
+  constructor(authService: AuthService, accountId: string) {
     this.authService = authService;
+    this.accountId = accountId;
+  }
+
+  getAccountId(): string {
+    return this.accountId;
+  }
+
+  /**
+   * Set the local sync folder to OneDrive mappings used to convert local paths
+   */
+  setPathMappings(mappings: PathMapping[]): void {
+    this.pathMappings = mappings;
+    console.log('[ONEDRIVE:DESKTOP] Path mappings updated:', mappings.length);
+  }
+
+  /**
+   * Set the drive uploads go to when a path mapping does not name one
+   */
+  setPreferredDriveId(driveId: string | null): void {
+    if (driveId !== this.preferredDriveId) {
+      this.preferredDriveId = driveId;
+      this.currentDriveId = null;
+    }
+  }
+
+  /**
+   * Forget the signed-in user's drive so the next user's is looked up afresh
+   */
+  reset(): void {
+    this.currentDriveId = null;
+    console.log('[ONEDRIVE:DESKTOP] Cleared cached drive');
   }
 
   /**
-   * Get user's default OneDrive drive
+   * Resolve a folder given either as a local sync path or as a path inside the
+   * drive to the drive and remote path to use
+   */
+  private async resolveFolder(folderPath: string, targetDriveId?: string): Promise<{ driveId: string; remotePath: string }> {
+    if (isLocalPath(folderPath)) {
+      const location = localToRemote(folderPath, this.pathMappings);
+      if (!location) {
+        throw new Error(`No OneDrive path mapping covers "${folderPath}". Add one under Settings > Path Mappings.`);
+      }
+      return {
+        driveId: location.driveId || await this.getDefaultDriveId(),
+        remotePath: location.remotePath
+      };
+    }
+
+    return {
+      driveId: targetDriveId || await this.getDefaultDriveId(),
+      remotePath: folderPath === 'root' ? '' : normalizeRemotePath(folderPath)
+    };
+  }
+
+  /**
+   * ID of the drive uploads go to by default, looked up once and then cached
+   */
+  async getDefaultDriveId(): Promise<string> {
+    return this.currentDriveId || (await this.getDefaultDrive()).id;
+  }
+
+  /**
+   * Get the drive uploads go to by default: the one chosen for this account,
+   * or the account's own OneDrive
    */
   async getDefaultDrive(): Promise<{ id: string; name: string }> {
     try {
       console.log('[ONEDRIVE:DESKTOP] Getting default OneDrive drive...');
-      
-      const drives = await this.authService.getOneDriveDrives();
-      console.log('[ONEDRIVE:DESKTOP] Available drives:', JSON.stringify(drives, null, 2));
-      
-      // Find personal OneDrive drive
-      let personalDrive = drives.find((drive: any) => 
-        drive.driveType === 'personal'
-      );
-
-      // If no personal drive found, try to find any drive with OneDrive in the name
-      if (!personalDrive) {
-        personalDrive = drives.find((drive: any) => 
-          drive.name && drive.name.toLowerCase().includes('onedrive')
-        );
-      }
+      const graph = this.authService.getGraphClient(this.accountId);
 
-      // If still no drive found, use the first available drive
-      if (!personalDrive && drives.length > 0) {
-        personalDrive = drives[0];
-        console.log('[ONEDRIVE:DESKTOP] Using first available drive:', personalDrive.name);
+      let drive: any = null;
+      if (this.preferredDriveId) {
+        try {
+          drive = (await graph.get(`https://graph.microsoft.com/v1.0/drives/${this.preferredDriveId}`)).data;
+        } catch (error: any) {
+          if (error.response?.status !== 404 && error.response?.status !== 403) {
+            throw error;
+          }
+          console.warn('[ONEDRIVE:DESKTOP] Chosen drive is not available, using OneDrive instead:', this.preferredDriveId);
+        }
       }
 
-      if (!personalDrive) {
-        throw new Error('No OneDrive drives found. Available drives: ' + JSON.stringify(drives));
+      if (!drive) {
+        drive = (await graph.get('https://graph.microsoft.com/v1.0/me/drive')).data;
       }
 
-      this.currentDriveId = personalDrive.id;
-      console.log('[ONEDRIVE:DESKTOP] Found OneDrive:', personalDrive.name, personalDrive.id);
+      this.currentDriveId = drive.id;
+      console.log('[ONEDRIVE:DESKTOP] Using drive:', drive.name, drive.id);
       
       return {
-        id: personalDrive.id,
-        name: personalDrive.name || 'OneDrive'
+        id: drive.id,
+        name: drive.name || 'OneDrive'
       };
     } catch (error) {
       console.error('[ONEDRIVE:DESKTOP] Error getting default drive:', error);
@@ -71,123 +169,148 @@ export class OneDriveService {
     }
   }
 
+  /**
+   * List the drives the user can upload to: their OneDrive, then the document
+   * libraries of the SharePoint sites they follow once the account has
+   * SharePoint access. A site whose libraries cannot be read is left out
+   * rather than failing the whole list.
+   */
+  async listDriveTargets(): Promise<DriveTarget[]> {
+    const graph = this.authService.getGraphClient(this.accountId);
+
+    const oneDrive = (await graph.get('https://graph.microsoft.com/v1.0/me/drive')).data;
+    const targets: DriveTarget[] = [{
+      id: oneDrive.id,
+      name: oneDrive.name || 'OneDrive',
+      driveType: oneDrive.driveType,
+      source: 'onedrive',
+      webUrl: oneDrive.webUrl
+    }];
+
+    if (!this.authService.hasSharePointAccess(this.accountId)) {
+      // SharePoint libraries are listed once the account has consented to reach them
+      return targets;
+    }
+
+    let sites: any[] = [];
+    try {
+      sites = (await graph.get('https://graph.microsoft.com/v1.0/me/followedSites')).data.value || [];
+    } catch (error: any) {
+      // Personal Microsoft accounts have no SharePoint sites
+      console.warn('[ONEDRIVE:DESKTOP] Could not list followed SharePoint sites:', error.response?.status || error.message);
+    }
+
+    for (const site of sites) {
+      try {
+        const drives: any[] = (await graph.get(`https://graph.microsoft.com/v1.0/sites/${site.id}/drives`)).data.value || [];
+        for (const drive of drives.filter(candidate => candidate.driveType === 'documentLibrary')) {
+          targets.push({
+            id: drive.id,
+            name: drive.name || 'Documents',
+            driveType: drive.driveType,
+            source: 'sharepoint',
+            siteId: site.id,
+            siteName: site.displayName || site.name,
+            webUrl: drive.webUrl
+          });
+        }
+      } catch (error: any) {
+        console.warn('[ONEDRIVE:DESKTOP] Could not list document libraries for site:', site.displayName || site.id, error.response?.status || error.message);
+      }
+    }
+
+    console.log('[ONEDRIVE:DESKTOP] Found', targets.length, 'drive(s) across', sites.length, 'followed site(s)');
+    return targets;
+  }
+
   /**
    * Upload file to OneDrive
    */
   async uploadFile(
     filePath: string, 
     fileName: string, 
-    folderPath: string = 'root'
+    folderPath: string = 'root',
+    options: UploadOptions = {}
   ): Promise<OneDriveFile> {
     try {
       console.log('[ONEDRIVE:DESKTOP] Uploading file:', fileName, 'to folder:', folderPath);
       
-      const accessToken = await this.authService.getAccessToken();
-      const driveId = this.currentDriveId || (await this.getDefaultDrive()).id;
+      const graph = this.authService.getGraphClient(this.accountId);
+      const { driveId, remotePath } = await this.resolveFolder(folderPath || 'root', options.driveId);
       
-      // Read file
-      const fs = require('fs');
-      const fileBuffer = fs.readFileSync(filePath);
+      // Files are streamed from disk so memory use does not grow with file size
+      const fileSize = (await fs.promises.stat(filePath)).size;
       
-      console.log('[ONEDRIVE:DESKTOP] File size:', fileBuffer.length, 'bytes');
-      
-      // Convert folder path to proper OneDrive format
-      let targetPath = 'root';
-      if (folderPath && folderPath !== 'root' && folderPath !== '') {
-        console.log('[ONEDRIVE:DESKTOP] Original folderPath:', folderPath);
-        
-        // Convert Windows path to OneDrive path
-        if (folderPath.includes('\\')) {
-          // Handle Windows paths with backslashes
-          targetPath = folderPath
-            .replace(/^E:\\365\\/, '') // Remove E:\365\ prefix
-            .replace(/\\/g, '/'); // Convert backslashes to forward slashes
-          
-          // Remove OneDrive - Broadlink prefix if present
-          if (targetPath.startsWith('OneDrive - Broadlink/')) {
-            targetPath = targetPath.substring('OneDrive - Broadlink/'.length);
-          }
-          console.log('[ONEDRIVE:DESKTOP] After Windows path conversion:', targetPath);
-        } else {
-          // Handle paths that are already in forward slash format
-          console.log('[ONEDRIVE:DESKTOP] Processing forward slash path:', folderPath);
-          targetPath = folderPath.startsWith('OneDrive - Broadlink/') 
-            ? folderPath.substring('OneDrive - Broadlink/'.length)
-            : folderPath;
-          console.log('[ONEDRIVE:DESKTOP] After forward slash conversion:', targetPath);
-        }
-      }
+      console.log('[ONEDRIVE:DESKTOP] File size:', fileSize, 'bytes');
+      console.log('[ONEDRIVE:DESKTOP] Target folder:', remotePath || 'root', 'on drive:', driveId);
       
-      console.log('[ONEDRIVE:DESKTOP] Final targetPath:', targetPath);
+      const itemPath = remotePath ? `${remotePath}/${fileName}` : fileName;
       
-      try {
-        // Create upload session for the target folder
-        const sessionUrl = targetPath === 'root' 
-          ? `https://graph.microsoft.com/v1.0/drives/${driveId}/root:/${fileName}:/createUploadSession`
-          : `https://graph.microsoft.com/v1.0/drives/${driveId}/root:/${targetPath}/${fileName}:/createUploadSession`;
-        console.log('[ONEDRIVE:DESKTOP] Creating upload session:', sessionUrl);
+      if (fileSize <= SIMPLE_UPLOAD_LIMIT) {
+        // Small files go up in a single request
+        const simpleUploadUrl = `https://graph.microsoft.com/v1.0/drives/${driveId}/root:/${itemPath}:/content`;
+        console.log('[ONEDRIVE:DESKTOP] Using simple upload:', simpleUploadUrl);
         
-        const sessionData = {
-          item: {
-            name: fileName,
-            file: {}
-          }
-        };
-        
-        const sessionResponse = await axios.post(sessionUrl, sessionData, {
-          headers: {
-            'Authorization': `Bearer ${accessToken}`,
-            'Content-Type': 'application/json'
-          }
-        });
-        
-        console.log('[ONEDRIVE:DESKTOP] Session response:', JSON.stringify(sessionResponse.data, null, 2));
-        
-        const sessionUploadUrl = sessionResponse.data.uploadUrl;
-        console.log('[ONEDRIVE:DESKTOP] Upload session created, uploading to:', sessionUploadUrl);
-        
-        // Upload file content to session URL
-        const uploadResponse = await axios.put(sessionUploadUrl, fileBuffer, {
+        const response = await graph.put(simpleUploadUrl, undefined, {
+          // A fresh stream per attempt so a throttled upload can be sent again
+          dataFactory: () => fs.createReadStream(filePath),
           headers: {
             'Content-Type': 'application/octet-stream',
-            'Content-Length': fileBuffer.length.toString()
+            'Content-Length': fileSize.toString()
           },
-          maxContentLength: Infinity,
-          maxBodyLength: Infinity
+          onUploadProgress: (loaded) => options.onProgress?.(loaded, fileSize)
         });
         
-        console.log('[ONEDRIVE:DESKTOP] Upload completed via session');
-        console.log('[ONEDRIVE:DESKTOP] Upload response:', JSON.stringify(uploadResponse.data, null, 2));
-        
-        return this.handleUploadResponse(uploadResponse);
-        
-      } catch (error: any) {
-        console.log('[ONEDRIVE:DESKTOP] Upload session failed, trying simple root upload...');
-        
-        // Fallback: Try simple upload to target folder
-        try {
-          const fallbackUploadUrl = targetPath === 'root'
-            ? `https://graph.microsoft.com/v1.0/drives/${driveId}/root:/${fileName}:/content`
-            : `https://graph.microsoft.com/v1.0/drives/${driveId}/root:/${targetPath}/${fileName}:/content`;
-          console.log('[ONEDRIVE:DESKTOP] Trying simple upload:', fallbackUploadUrl);
+        console.log('[ONEDRIVE:DESKTOP] Simple upload successful');
+        return this.handleUploadResponse(response);
+      }
+      
+      // Large files go up in ranges through an upload session
+      let session: UploadSessionState | null = options.resumeSession
+        ? await this.getUploadSessionStatus(options.resumeSession.uploadUrl)
+        : null;
+      
+      if (session) {
+        console.log('[ONEDRIVE:DESKTOP] Resuming upload session at offset:', session.nextOffset);
+      } else {
+        session = await this.createUploadSession(driveId, itemPath, fileName);
+      }
+      options.onSessionUpdate?.(session);
+      
+      // Only one chunk is held in memory at a time
+      const fileHandle = await fs.promises.open(filePath, 'r');
+      const chunkBuffer = Buffer.alloc(Math.min(UPLOAD_CHUNK_SIZE, fileSize));
+      try {
+        while (true) {
+          const start: number = session.nextOffset;
+          const length = Math.min(UPLOAD_CHUNK_SIZE, fileSize - start);
+          const { bytesRead } = await fileHandle.read(chunkBuffer, 0, length, start);
+          const end: number = start + bytesRead;
           
-          const response = await axios.put(fallbackUploadUrl, fileBuffer, {
-            headers: {
-              'Authorization': `Bearer ${accessToken}`,
-              'Content-Type': 'application/octet-stream',
-              'Content-Length': fileBuffer.length.toString()
-            },
-            maxContentLength: Infinity,
-            maxBodyLength: Infinity
-          });
+          options.onProgress?.(start, fileSize);
+          const response = await this.uploadChunk(
+            session.uploadUrl, 
+            chunkBuffer.subarray(0, bytesRead), 
+            start, 
+            fileSize,
+            (loaded) => options.onProgress?.(start + loaded, fileSize)
+          );
           
-          console.log('[ONEDRIVE:DESKTOP] Simple upload successful');
-          return this.handleUploadResponse(response);
+          if (response.status === 200 || response.status === 201) {
+            console.log('[ONEDRIVE:DESKTOP] Upload completed via session');
+            options.onProgress?.(fileSize, fileSize);
+            options.onSessionUpdate?.(null);
+            return this.handleUploadResponse(response);
+          }
           
-        } catch (fallbackError: any) {
-          console.log('[ONEDRIVE:DESKTOP] All upload methods failed');
-          throw fallbackError;
+          session = {
+            uploadUrl: session.uploadUrl,
+            nextOffset: this.parseNextExpectedOffset(response.data?.nextExpectedRanges, end)
+          };
+          options.onSessionUpdate?.(session);
         }
+      } finally {
+        await fileHandle.close();
       }
     } catch (error: any) {
       console.error('[ONEDRIVE:DESKTOP] Error uploading file:', error);
@@ -208,6 +331,103 @@ export class OneDriveService {
     }
   }
 
+  /**
+   * Create a Graph upload session for a large file
+   */
+  private async createUploadSession(
+    driveId: string, 
+    itemPath: string, 
+    fileName: string
+  ): Promise<UploadSessionState> {
+    const sessionUrl = `https://graph.microsoft.com/v1.0/drives/${driveId}/root:/${itemPath}:/createUploadSession`;
+    console.log('[ONEDRIVE:DESKTOP] Creating upload session:', sessionUrl);
+    
+    const sessionResponse = await this.authService.getGraphClient(this.accountId).post(sessionUrl, {
+      item: {
+        name: fileName,
+        file: {}
+      }
+    }, {
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      // An unused session simply expires, so asking again is harmless
+      idempotent: true
+    });
+    
+    console.log('[ONEDRIVE:DESKTOP] Upload session created, expires:', sessionResponse.data.expirationDateTime);
+    return { uploadUrl: sessionResponse.data.uploadUrl, nextOffset: 0 };
+  }
+
+  /**
+   * Ask Graph where a saved upload session should continue from.
+   * Returns null when the session has expired or no longer exists.
+   */
+  private async getUploadSessionStatus(uploadUrl: string): Promise<UploadSessionState | null> {
+    try {
+      // Session URLs are pre-authenticated, so no Authorization header
+      const response = await this.authService.getGraphClient(this.accountId).get(uploadUrl, { authenticated: false });
+      return {
+        uploadUrl,
+        nextOffset: this.parseNextExpectedOffset(response.data?.nextExpectedRanges, 0)
+      };
+    } catch (error: any) {
+      console.log('[ONEDRIVE:DESKTOP] Saved upload session is no longer valid:', error.response?.status || error.message);
+      return null;
+    }
+  }
+
+  /**
+   * PUT one byte range of an upload session, retrying transient failures.
+   * Throttling is handled by the Graph client.
+   */
+  private async uploadChunk(
+    uploadUrl: string, 
+    chunk: Buffer, 
+    start: number, 
+    totalSize: number,
+    onUploadProgress?: (loaded: number) => void
+  ): Promise<any> {
+    const end = start + chunk.length - 1;
+    
+    for (let attempt = 1; ; attempt++) {
+      try {
+        console.log(`[ONEDRIVE:DESKTOP] Uploading bytes ${start}-${end}/${totalSize} (attempt ${attempt})`);
+        return await this.authService.getGraphClient(this.accountId).put(uploadUrl, chunk, {
+          authenticated: false,
+          headers: {
+            'Content-Type': 'application/octet-stream',
+            'Content-Length': chunk.length.toString(),
+            'Content-Range': `bytes ${start}-${end}/${totalSize}`
+          },
+          onUploadProgress
+        });
+      } catch (error: any) {
+        const status = error.response?.status;
+        const retryable = !status || (status >= 500 && status !== 503);
+        if (!retryable || attempt >= CHUNK_RETRY_ATTEMPTS) {
+          throw error;
+        }
+        
+        const delay = 1000 * Math.pow(2, attempt - 1);
+        console.log(`[ONEDRIVE:DESKTOP] Chunk upload failed (${status || error.message}), retrying in ${delay}ms`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  /**
+   * Read the start of the first range from Graph's nextExpectedRanges (e.g. "26214400-")
+   */
+  private parseNextExpectedOffset(nextExpectedRanges: string[] | undefined, fallback: number): number {
+    const firstRange = nextExpectedRanges?.[0];
+    if (!firstRange) {
+      return fallback;
+    }
+    const offset = parseInt(firstRange.split('-')[0], 10);
+    return isNaN(offset) ? fallback : offset;
+  }
+
   /**
    * Handle upload response
    */
@@ -221,13 +441,20 @@ export class OneDriveService {
         size: result.size
       });
       
+      // parentReference.path looks like "/drive/root:/Clients/Loans" (or "/drives/{id}/root:")
+      const parentPath = typeof result.parentReference?.path === 'string'
+        ? normalizeRemotePath(decodeURIComponent(result.parentReference.path.replace(/^.*?root:/, '')))
+        : undefined;
+      
       return {
         id: result.id,
         name: result.name,
         webUrl: result.webUrl,
         size: result.size,
         createdDateTime: result.createdDateTime,
-        lastModifiedDateTime: result.lastModifiedDateTime
+        lastModifiedDateTime: result.lastModifiedDateTime,
+        driveId: result.parentReference?.driveId,
+        path: parentPath !== undefined ? joinRemotePath(parentPath, result.name) : undefined
       };
     } else {
       throw new Error(`Upload failed with status ${response.status}: ${response.statusText}`);
@@ -237,12 +464,11 @@ export class OneDriveService {
   /**
    * Create folder in OneDrive
    */
-  async createFolder(folderName: string, parentFolderId: string = 'root'): Promise<OneDriveFolder> {
+  async createFolder(folderName: string, parentFolderId: string = 'root', targetDriveId?: string): Promise<OneDriveFolder> {
     try {
       console.log('[ONEDRIVE:DESKTOP] Creating folder:', folderName, 'in parent:', parentFolderId);
       
-      const accessToken = await this.authService.getAccessToken();
-      const driveId = this.currentDriveId || (await this.getDefaultDrive()).id;
+      const driveId = targetDriveId || await this.getDefaultDriveId();
       
       const createUrl = `https://graph.microsoft.com/v1.0/drives/${driveId}/items/${parentFolderId}/children`;
       
@@ -252,9 +478,8 @@ export class OneDriveService {
         '@microsoft.graph.conflictBehavior': 'rename'
       };
       
-      const response = await axios.post(createUrl, folderData, {
+      const response = await this.authService.getGraphClient(this.accountId).post(createUrl, folderData, {
         headers: {
-          'Authorization': `Bearer ${accessToken}`,
           'Content-Type': 'application/json'
         }
       });
@@ -279,6 +504,26 @@ export class OneDriveService {
     }
   }
 
+  /**
+   * Delete an item from OneDrive. An item that is already gone counts as deleted.
+   */
+  async deleteItem(itemId: string, targetDriveId?: string): Promise<void> {
+    console.log('[ONEDRIVE:DESKTOP] Deleting item:', itemId);
+
+    const driveId = targetDriveId || await this.getDefaultDriveId();
+    try {
+      await this.authService.getGraphClient(this.accountId).delete(`https://graph.microsoft.com/v1.0/drives/${driveId}/items/${itemId}`);
+      console.log('[ONEDRIVE:DESKTOP] Item deleted:', itemId);
+    } catch (error: any) {
+      if (error.response?.status === 404) {
+        console.log('[ONEDRIVE:DESKTOP] Item already deleted:', itemId);
+        return;
+      }
+      console.error('[ONEDRIVE:DESKTOP] Error deleting item:', error);
+      throw error;
+    }
+  }
+
   /**
    * Find folder by path in OneDrive
    */
@@ -286,17 +531,8 @@ export class OneDriveService {
     try {
       console.log('[ONEDRIVE:DESKTOP] Finding folder by path:', folderPath);
       
-      const accessToken = await this.authService.getAccessToken();
-      const driveId = this.currentDriveId || (await this.getDefaultDrive()).id;
-      
-      // Convert Windows path to OneDrive path format
-      let cleanPath = folderPath;
-      if (cleanPath.includes(':')) {
-        // Remove drive letter
-        cleanPath = cleanPath.substring(cleanPath.indexOf(':') + 1);
-      }
-      // Convert backslashes to forward slashes and clean up
-      cleanPath = cleanPath.replace(/\\/g, '/').replace(/^\/+/, '').replace(/\/+$/, '');
+      const graph = this.authService.getGraphClient(this.accountId);
+      const { driveId, remotePath: cleanPath } = await this.resolveFolder(folderPath);
       
       console.log('[ONEDRIVE:DESKTOP] Cleaned path:', cleanPath);
       
@@ -304,11 +540,7 @@ export class OneDriveService {
       const getUrl = `https://graph.microsoft.com/v1.0/drives/${driveId}/root:/${cleanPath}`;
       
       try {
-        const response = await axios.get(getUrl, {
-          headers: {
-            'Authorization': `Bearer ${accessToken}`,
-          }
-        });
+        const response = await graph.get(getUrl);
         
         const folder = response.data;
         console.log('[ONEDRIVE:DESKTOP] Found folder:', folder.name, folder.id);
@@ -330,7 +562,7 @@ export class OneDriveService {
           
           for (const part of pathParts) {
             try {
-              const folder = await this.createFolder(part, currentFolderId);
+              const folder = await this.createFolder(part, currentFolderId, driveId);
               currentFolderId = folder.id;
             } catch (createError) {
               console.error('[ONEDRIVE:DESKTOP] Error creating folder part:', part, createError);
@@ -339,11 +571,7 @@ export class OneDriveService {
           }
           
           // Return the last created folder
-          const finalResponse = await axios.get(`https://graph.microsoft.com/v1.0/drives/${driveId}/items/${currentFolderId}`, {
-            headers: {
-              'Authorization': `Bearer ${accessToken}`,
-            }
-          });
+          const finalResponse = await graph.get(`https://graph.microsoft.com/v1.0/drives/${driveId}/items/${currentFolderId}`);
           
           const finalFolder = finalResponse.data;
           return {
@@ -370,16 +598,11 @@ export class OneDriveService {
     try {
       console.log('[ONEDRIVE:DESKTOP] Getting folder contents for:', folderId);
       
-      const accessToken = await this.authService.getAccessToken();
-      const driveId = this.currentDriveId || (await this.getDefaultDrive()).id;
+      const driveId = await this.getDefaultDriveId();
       
       const childrenUrl = `https://graph.microsoft.com/v1.0/drives/${driveId}/items/${folderId}/children`;
       
-      const response = await axios.get(childrenUrl, {
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-        }
-      });
+      const response = await this.authService.getGraphClient(this.accountId).get(childrenUrl);
 
       const items = response.data.value || [];
       console.log('[ONEDRIVE:DESKTOP] Found', items.length, 'items in folder');
@@ -1,5 +1,49 @@
 import { contextBridge, ipcRenderer } from 'electron';
 
+interface FileTagAssociation {
+  id: number;
+  file_id: string;
+  tag_id: number;
+  item_type: 'file' | 'folder';
+  drive_id: string;
+  notes?: string;
+  created_at?: string;
+}
+
+interface ConnectivityState {
+  online: boolean;
+  graphReachable: boolean;
+  apiReachable: boolean;
+  checkedAt: string | null;
+}
+
+interface AccountSummary {
+  id: string;
+  name: string;
+  email: string;
+  isActive: boolean;
+  needsSignIn: boolean;
+  hasSharePointAccess: boolean;
+}
+
+interface DriveTarget {
+  id: string;
+  name: string;
+  driveType?: string;
+  source: 'onedrive' | 'sharepoint';
+  siteId?: string;
+  siteName?: string;
+  webUrl?: string;
+}
+
+interface TagCategoriesResult {
+  categories: any[];
+  fetchedAt: string | null;
+  isStale: boolean;
+  refreshFailed: boolean;
+  apiUrl: string;
+}
+
 // Expose protected methods that allow the renderer process to use
 // the ipcRenderer without exposing the entire object
 contextBridge.exposeInMainWorld('electronAPI', {
@@ -21,21 +65,119 @@ contextBridge.exposeInMainWorld('electronAPI', {
     ipcRenderer.on('file-detected', (event, filePath) => callback(filePath));
   },
 
+  // Processing queue
+  getProcessingQueue: () => ipcRenderer.invoke('get-processing-queue'),
+  addFilesToQueue: (filePaths: string[]) => ipcRenderer.invoke('add-files-to-queue', filePaths),
+  updateQueueItem: (id: number, updates: any) => ipcRenderer.invoke('update-queue-item', id, updates),
+  updateQueueStatus: (id: number, status: string, errorMessage?: string) =>
+    ipcRenderer.invoke('update-queue-status', id, status, errorMessage),
+  removeFromQueue: (ids: number[]) => ipcRenderer.invoke('remove-from-queue', ids),
+  enqueueUpload: (ids: number[]) => ipcRenderer.invoke('enqueue-upload', ids),
+  retryFailedUploads: () => ipcRenderer.invoke('retry-failed-uploads'),
+  onQueueUpdated: (callback: () => void) => {
+    const listener = () => callback();
+    ipcRenderer.on('queue-updated', listener);
+    return () => {
+      ipcRenderer.removeListener('queue-updated', listener);
+    };
+  },
+  onUploadProgress: (callback: (event: any) => void) => {
+    const listener = (event: any, progress: any) => callback(progress);
+    ipcRenderer.on('upload-progress', listener);
+    return () => {
+      ipcRenderer.removeListener('upload-progress', listener);
+    };
+  },
+  onGraphThrottled: (callback: (state: { throttled: boolean; resumeAt?: string; retryAfterSeconds?: number; status?: number }) => void) => {
+    const listener = (event: any, state: { throttled: boolean; resumeAt?: string; retryAfterSeconds?: number; status?: number }) => callback(state);
+    ipcRenderer.on('graph-throttled', listener);
+    return () => {
+      ipcRenderer.removeListener('graph-throttled', listener);
+    };
+  },
+  onApiAuthRequired: (callback: () => void) => {
+    const listener = () => callback();
+    ipcRenderer.on('api-auth-required', listener);
+    return () => {
+      ipcRenderer.removeListener('api-auth-required', listener);
+    };
+  },
+  onSessionExpired: (callback: (account: AccountSummary) => void) => {
+    const listener = (event: any, account: AccountSummary) => callback(account);
+    ipcRenderer.on('session-expired', listener);
+    return () => {
+      ipcRenderer.removeListener('session-expired', listener);
+    };
+  },
+  onConnectivityChanged: (callback: (state: ConnectivityState) => void) => {
+    const listener = (event: Electron.IpcRendererEvent, state: ConnectivityState) => callback(state);
+    ipcRenderer.on('connectivity-changed', listener);
+    return () => {
+      ipcRenderer.removeListener('connectivity-changed', listener);
+    };
+  },
+  onTagCategoriesUpdated: (callback: (result: TagCategoriesResult) => void) => {
+    const listener = (event: Electron.IpcRendererEvent, result: TagCategoriesResult) => callback(result);
+    ipcRenderer.on('tag-categories-updated', listener);
+    return () => {
+      ipcRenderer.removeListener('tag-categories-updated', listener);
+    };
+  },
+
   // Notification events
   onNotificationClicked: (callback: (data: { fileName: string; filePath: string }) => void) => {
-    ipcRenderer.on('notification-clicked', (event, data) => callback(data));
+    const listener = (event: any, data: { fileName: string; filePath: string }) => callback(data);
+    ipcRenderer.on('notification-clicked', listener);
+    return () => {
+      ipcRenderer.removeListener('notification-clicked', listener);
+    };
   },
 
   // User authentication events
   onUserAuthenticated: (callback: (user: any) => void) => {
     ipcRenderer.on('user-authenticated', (event, user) => callback(user));
   },
+  onUserSignedOut: (callback: () => void) => {
+    ipcRenderer.on('user-signed-out', () => callback());
+  },
 
   // Switch to settings events
   onSwitchToSettings: (callback: () => void) => {
     ipcRenderer.on('switch-to-settings', () => callback());
   },
 
+  // Database health
+  getDatabaseHealth: () => ipcRenderer.invoke('get-database-health'),
+  repairDatabase: (action: 'integrity-check' | 'restore-backup' | 'recreate') => ipcRenderer.invoke('repair-database', action),
+  onDatabaseHealthChanged: (callback: (health: any) => void) => {
+    ipcRenderer.on('database-health-changed', (event, health) => callback(health));
+  },
+
+  // Tag associations
+  createFileTagAssociations: (fileId: string, tagIds: number[], driveId?: string, notes?: string) =>
+    ipcRenderer.invoke('create-file-tag-associations', fileId, tagIds, driveId, notes),
+  getFileTagAssociations: (fileId: string) => ipcRenderer.invoke('get-file-tag-associations', fileId),
+  deleteFileTagAssociation: (associationId: number) => ipcRenderer.invoke('delete-file-tag-association', associationId),
+  checkApiHealth: (apiUrl?: string) => ipcRenderer.invoke('check-api-health', apiUrl),
+
+  // Connectivity
+  getConnectivityState: () => ipcRenderer.invoke('get-connectivity-state'),
+  checkConnectivity: () => ipcRenderer.invoke('check-connectivity'),
+
+  // Database backups
+  listDatabaseBackups: () => ipcRenderer.invoke('list-database-backups'),
+  createDatabaseBackup: () => ipcRenderer.invoke('create-database-backup'),
+  restoreDatabaseBackup: (fileName: string) => ipcRenderer.invoke('restore-database-backup', fileName),
+
+  // File history
+  getFileHistory: (filter: any) => ipcRenderer.invoke('get-file-history', filter),
+  getFileHistoryFolders: () => ipcRenderer.invoke('get-file-history-folders'),
+  exportFileHistory: (filter: any, format: 'csv' | 'json') => ipcRenderer.invoke('export-file-history', filter, format),
+
+  // Routing rules
+  testRoutingRules: (rules: any[], sample: { fileName?: string; filePath?: string }) =>
+    ipcRenderer.invoke('test-routing-rules', rules, sample),
+
   // Environment switching
   setApiUrl: (apiUrl: string) => ipcRenderer.invoke('set-api-url', apiUrl),
 
@@ -71,10 +213,13 @@ contextBridge.exposeInMainWorld('electronAPI', {
       // Authentication
       authenticateUser: () => ipcRenderer.invoke('authenticate-user'),
       getCurrentUser: () => ipcRenderer.invoke('get-current-user'),
-      signOutUser: () => ipcRenderer.invoke('sign-out-user'),
+      signOutUser: (accountId?: string) => ipcRenderer.invoke('sign-out-user', accountId),
+      getAccounts: () => ipcRenderer.invoke('get-accounts'),
+      switchAccount: (accountId: string) => ipcRenderer.invoke('switch-account', accountId),
 
       // OneDrive
       getOneDriveDrives: () => ipcRenderer.invoke('get-onedrive-drives'),
+      requestSharePointAccess: () => ipcRenderer.invoke('request-sharepoint-access'),
       uploadToOneDrive: (filePath: string, fileName: string, folderPath?: string) => 
         ipcRenderer.invoke('upload-to-onedrive', filePath, fileName, folderPath),
       findOneDriveFolder: (folderPath: string) => ipcRenderer.invoke('find-onedrive-folder', folderPath)
@@ -91,16 +236,47 @@ declare global {
       stopFileWatcher: () => Promise<boolean>;
       restartFileWatcher: () => Promise<boolean>;
       onFileDetected: (callback: (filePath: string) => void) => void;
-      onNotificationClicked: (callback: (data: { fileName: string; filePath: string }) => void) => void;
+      getProcessingQueue: () => Promise<any[]>;
+      addFilesToQueue: (filePaths: string[]) => Promise<any[]>;
+      updateQueueItem: (id: number, updates: { displayName?: string; tags?: string; folderPath?: string }) => Promise<boolean>;
+      updateQueueStatus: (id: number, status: string, errorMessage?: string) => Promise<boolean>;
+      removeFromQueue: (ids: number[]) => Promise<boolean>;
+      enqueueUpload: (ids: number[]) => Promise<boolean>;
+      retryFailedUploads: () => Promise<number>;
+      onQueueUpdated: (callback: () => void) => () => void;
+      onUploadProgress: (callback: (event: any) => void) => () => void;
+      onGraphThrottled: (callback: (state: { throttled: boolean; resumeAt?: string; retryAfterSeconds?: number; status?: number }) => void) => () => void;
+      onTagCategoriesUpdated: (callback: (result: TagCategoriesResult) => void) => () => void;
+      onConnectivityChanged: (callback: (state: ConnectivityState) => void) => () => void;
+      onApiAuthRequired: (callback: () => void) => () => void;
+      onSessionExpired: (callback: (account: AccountSummary) => void) => () => void;
+      createFileTagAssociations: (fileId: string, tagIds: number[], driveId?: string, notes?: string) => Promise<{ success: boolean; associations?: FileTagAssociation[]; error?: string }>;
+      getFileTagAssociations: (fileId: string) => Promise<{ success: boolean; associations: FileTagAssociation[]; error?: string }>;
+      deleteFileTagAssociation: (associationId: number) => Promise<{ success: boolean; error?: string }>;
+      checkApiHealth: (apiUrl?: string) => Promise<boolean>;
+      getConnectivityState: () => Promise<ConnectivityState>;
+      checkConnectivity: () => Promise<ConnectivityState>;
+      onNotificationClicked: (callback: (data: { fileName: string; filePath: string }) => void) => () => void;
       onUserAuthenticated: (callback: (user: any) => void) => void;
+      onUserSignedOut: (callback: () => void) => void;
       onSwitchToSettings: (callback: () => void) => void;
+      getDatabaseHealth: () => Promise<{ status: 'ok' | 'degraded' | 'repairing'; error?: string; integrityErrors?: string[]; canRestoreBackup: boolean }>;
+      repairDatabase: (action: 'integrity-check' | 'restore-backup' | 'recreate') => Promise<{ success: boolean; message: string; exportPath?: string }>;
+      onDatabaseHealthChanged: (callback: (health: { status: 'ok' | 'degraded' | 'repairing'; error?: string; integrityErrors?: string[]; canRestoreBackup: boolean }) => void) => void;
+      listDatabaseBackups: () => Promise<{ fileName: string; filePath: string; createdAt: string; sizeBytes: number }[]>;
+      createDatabaseBackup: () => Promise<{ success: boolean; backup?: { fileName: string; createdAt: string; sizeBytes: number }; error?: string }>;
+      restoreDatabaseBackup: (fileName: string) => Promise<{ success: boolean; message: string }>;
+      getFileHistory: (filter: { search?: string; fromDate?: string; toDate?: string; tagIds?: number[]; folderPath?: string; limit?: number; offset?: number }) => Promise<any[]>;
+      getFileHistoryFolders: () => Promise<string[]>;
+      exportFileHistory: (filter: { search?: string; fromDate?: string; toDate?: string; tagIds?: number[]; folderPath?: string }, format: 'csv' | 'json') => Promise<{ success: boolean; canceled?: boolean; filePath?: string; count?: number; error?: string }>;
+      testRoutingRules: (rules: any[], sample: { fileName?: string; filePath?: string }) => Promise<{ input: any; match: any | null }>;
       setApiUrl: (apiUrl: string) => Promise<{ success: boolean }>;
       checkForUpdates: () => Promise<any>;
       quitAndInstall: () => Promise<void>;
       onUpdateAvailable: (callback: (info: any) => void) => void;
       onDownloadProgress: (callback: (progress: any) => void) => void;
       onUpdateDownloaded: (callback: (info: any) => void) => void;
-      getTagCategories: () => Promise<any[]>;
+      getTagCategories: () => Promise<TagCategoriesResult>;
       selectOneDriveFolder: (defaultPath?: string) => Promise<string | null>;
       detectOneDriveAccounts: () => Promise<any[]>;
           deleteFile: (filePath: string) => Promise<boolean>;
@@ -109,8 +285,11 @@ declare global {
           listFilesInFolder: (folderPath: string) => Promise<string[]>;
           authenticateUser: () => Promise<any>;
           getCurrentUser: () => Promise<any>;
-          signOutUser: () => Promise<boolean>;
-          getOneDriveDrives: () => Promise<any[]>;
+          signOutUser: (accountId?: string) => Promise<boolean>;
+          getAccounts: () => Promise<AccountSummary[]>;
+          switchAccount: (accountId: string) => Promise<any>;
+          getOneDriveDrives: () => Promise<DriveTarget[]>;
+          requestSharePointAccess: () => Promise<{ success: boolean; error?: string }>;
           uploadToOneDrive: (filePath: string, fileName: string, folderPath?: string) => Promise<any>;
           findOneDriveFolder: (folderPath: string) => Promise<any>;
         };
@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TagCategoryCache, TagCategoriesResult } from './tagCategoryCache';
+import { ApiClient } from './apiClient';
+import { DatabaseManager } from './databaseManager';
+
+const API_URL = 'https://api.example.test';
+const CATEGORIES = [{ id: 1, name: 'Loans', color: '#1890ff', tags: [] }];
+
+function createCache(storedFetchedAt: string | null) {
+  const store = new Map<string, any>();
+  if (storedFetchedAt) {
+    store.set(`tag-categories:${API_URL}`, { categories: CATEGORIES, fetchedAt: storedFetchedAt });
+  }
+
+  const apiClient = { getTagCategories: vi.fn() };
+  const databaseManager = {
+    getCachedData: vi.fn((key: string) => store.get(key) ?? null),
+    cacheData: vi.fn((key: string, value: any) => { store.set(key, value); })
+  };
+  const cache = new TagCategoryCache(apiClient as unknown as ApiClient, databaseManager as unknown as DatabaseManager);
+  const updates: TagCategoriesResult[] = [];
+  cache.on('updated', (result: TagCategoriesResult) => updates.push(result));
+  return { cache, apiClient, updates };
+}
+
+describe('TagCategoryCache', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('serves a recent copy as fresh without emitting when nothing changed', async () => {
+    const { cache, apiClient, updates } = createCache(new Date().toISOString());
+    apiClient.getTagCategories.mockResolvedValue(CATEGORIES);
+
+    const result = await cache.get(API_URL);
+    await cache.refresh(API_URL);
+
+    expect(result).toMatchObject({ isStale: false, refreshFailed: false });
+    expect(updates).toEqual([]);
+  });
+
+  it('emits after refreshing an old copy even when the categories are unchanged', async () => {
+    const { cache, apiClient, updates } = createCache('2024-01-01T00:00:00.000Z');
+    apiClient.getTagCategories.mockResolvedValue(CATEGORIES);
+
+    const result = await cache.get(API_URL);
+    expect(result).toMatchObject({ isStale: true, refreshFailed: false });
+
+    await cache.refresh(API_URL);
+    expect(updates).toHaveLength(1);
+    expect(updates[0]).toMatchObject({ isStale: false, refreshFailed: false, categories: CATEGORIES });
+  });
+
+  it('reports a failed refresh separately from an old copy and emits once it recovers', async () => {
+    const { cache, apiClient, updates } = createCache(new Date().toISOString());
+    apiClient.getTagCategories.mockRejectedValue(new Error('ECONNREFUSED'));
+
+    await cache.get(API_URL);
+    await cache.refresh(API_URL);
+    expect(updates).toHaveLength(1);
+    expect(updates[0]).toMatchObject({ isStale: true, refreshFailed: true });
+
+    const stale = await cache.get(API_URL);
+    expect(stale).toMatchObject({ isStale: true, refreshFailed: true });
+    await cache.refresh(API_URL);
+    // Still failing: nothing new to report
+    expect(updates).toHaveLength(1);
+
+    apiClient.getTagCategories.mockResolvedValue(CATEGORIES);
+    await cache.refresh(API_URL);
+    expect(updates).toHaveLength(2);
+    expect(updates[1]).toMatchObject({ isStale: false, refreshFailed: false });
+  });
+
+  it('rejects when the backend fails and nothing is cached', async () => {
+    const { cache, apiClient } = createCache(null);
+    apiClient.getTagCategories.mockRejectedValue(new Error('ECONNREFUSED'));
+
+    await expect(cache.get(API_URL)).rejects.toThrow('ECONNREFUSED');
+  });
+});
@@ -0,0 +1,128 @@
+import { EventEmitter } from 'events';
+import { ApiClient, FileTagCategory } from './apiClient';
+import { DatabaseManager } from './databaseManager';
+
+export interface TagCategoriesResult {
+  categories: FileTagCategory[];
+  /** When the categories were last fetched from the backend; null if never */
+  fetchedAt: string | null;
+  /** True when the list is older than a few minutes or the last refresh failed */
+  isStale: boolean;
+  /** True when the last refresh could not reach the backend */
+  refreshFailed: boolean;
+  apiUrl: string;
+}
+
+interface CachedTagCategories {
+  categories: FileTagCategory[];
+  fetchedAt: string;
+}
+
+/** Cached copies are kept long enough to cover a long outage */
+const CACHE_TTL_MINUTES = 30 * 24 * 60;
+/** A cached copy younger than this is served without counting as stale */
+const FRESH_FOR_MS = 5 * 60 * 1000;
+
+/**
+ * Serves tag categories from the local cache straight away and refreshes them
+ * from the backend in the background (stale-while-revalidate). Emits 'updated'
+ * with a TagCategoriesResult whenever the categories or their staleness change,
+ * including after a successful refresh that follows a stale read.
+ */
+export class TagCategoryCache extends EventEmitter {
+  private apiClient: ApiClient;
+  private databaseManager: DatabaseManager;
+  private refreshes = new Map<string, Promise<TagCategoriesResult>>();
+  private failedRefresh = new Set<string>();
+  /** Environments whose callers were last handed a stale list */
+  private staleServed = new Set<string>();
+
+  constructor(apiClient: ApiClient, databaseManager: DatabaseManager) {
+    super();
+    this.apiClient = apiClient;
+    this.databaseManager = databaseManager;
+  }
+
+  /**
+   * Return the cached categories for an environment and refresh them in the
+   * background. Waits for the backend only when nothing is cached yet.
+   */
+  async get(apiUrl: string): Promise<TagCategoriesResult> {
+    const cached = this.readCache(apiUrl);
+    if (!cached) {
+      return this.refresh(apiUrl);
+    }
+
+    const age = Date.now() - new Date(cached.fetchedAt).getTime();
+    const refreshFailed = this.failedRefresh.has(apiUrl);
+    const isStale = refreshFailed || age > FRESH_FOR_MS;
+    if (isStale) {
+      // The background refresh reports back even if nothing changed
+      this.staleServed.add(apiUrl);
+    }
+
+    this.refresh(apiUrl).catch(() => {
+      // Failures are reported through the 'updated' event
+    });
+
+    return { categories: cached.categories, fetchedAt: cached.fetchedAt, isStale, refreshFailed, apiUrl };
+  }
+
+  /**
+   * Fetch categories from the backend and update the cache. Falls back to the
+   * cached copy, marked stale, when the backend cannot be reached.
+   */
+  refresh(apiUrl: string): Promise<TagCategoriesResult> {
+    // Callers asking while a fetch is running share its result
+    const pending = this.refreshes.get(apiUrl);
+    if (pending) return pending;
+
+    const refresh = this.fetchAndStore(apiUrl).finally(() => this.refreshes.delete(apiUrl));
+    this.refreshes.set(apiUrl, refresh);
+    return refresh;
+  }
+
+  private async fetchAndStore(apiUrl: string): Promise<TagCategoriesResult> {
+    const cached = this.readCache(apiUrl);
+    const wasFailed = this.failedRefresh.has(apiUrl);
+
+    try {
+      const categories = await this.apiClient.getTagCategories(apiUrl);
+      const fetchedAt = new Date().toISOString();
+      this.databaseManager.cacheData(this.cacheKey(apiUrl), { categories, fetchedAt }, CACHE_TTL_MINUTES);
+      this.failedRefresh.delete(apiUrl);
+      const servedStale = this.staleServed.delete(apiUrl);
+
+      const result: TagCategoriesResult = { categories, fetchedAt, isStale: false, refreshFailed: false, apiUrl };
+      const changed = !cached || JSON.stringify(cached.categories) !== JSON.stringify(categories);
+      if (changed || wasFailed || servedStale) {
+        console.log('[TAGCACHE] Tag categories updated for', apiUrl);
+        this.emit('updated', result);
+      }
+      return result;
+    } catch (error) {
+      console.warn('[TAGCACHE] Could not refresh tag categories for', apiUrl, error instanceof Error ? error.message : error);
+      this.failedRefresh.add(apiUrl);
+
+      if (!cached) {
+        throw error;
+      }
+
+      this.staleServed.add(apiUrl);
+      const result: TagCategoriesResult = { categories: cached.categories, fetchedAt: cached.fetchedAt, isStale: true, refreshFailed: true, apiUrl };
+      if (!wasFailed) {
+        this.emit('updated', result);
+      }
+      return result;
+    }
+  }
+
+  private readCache(apiUrl: string): CachedTagCategories | null {
+    const cached = this.databaseManager.getCachedData(this.cacheKey(apiUrl));
+    return cached && Array.isArray(cached.categories) ? cached : null;
+  }
+
+  private cacheKey(apiUrl: string): string {
+    return `tag-categories:${apiUrl}`;
+  }
+}
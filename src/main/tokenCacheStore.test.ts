@@ -0,0 +1,88 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const safeStorage = vi.hoisted(() => ({
+  available: true,
+  isEncryptionAvailable() {
+    return this.available;
+  },
+  // Reversible stand-in for the OS keychain
+  encryptString: (value: string) => Buffer.from(`encrypted:${value}`),
+  decryptString: (buffer: Buffer) => buffer.toString().replace(/^encrypted:/, '')
+}));
+
+vi.mock('electron', () => ({
+  app: { getPath: () => os.tmpdir() },
+  safeStorage
+}));
+
+import { ISerializableTokenCache, TokenCacheContext } from '@azure/msal-node';
+import { TokenCacheStore } from './tokenCacheStore';
+
+function cacheContext(serialized = '', cacheHasChanged = false): TokenCacheContext {
+  const tokenCache: ISerializableTokenCache = {
+    serialize: () => serialized,
+    deserialize: vi.fn()
+  };
+  return new TokenCacheContext(tokenCache, cacheHasChanged);
+}
+
+describe('TokenCacheStore', () => {
+  let directory: string;
+  let store: TokenCacheStore;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    safeStorage.available = true;
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'blinkapp-token-cache-test-'));
+    store = new TokenCacheStore(directory);
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  it('encrypts the cache when safeStorage is available and reads it back', async () => {
+    await store.afterCacheAccess(cacheContext('{"v":1}', true));
+
+    expect(fs.readdirSync(directory)).toEqual(['token-cache.bin']);
+    const context = cacheContext();
+    await store.beforeCacheAccess(context);
+    expect(context.tokenCache.deserialize).toHaveBeenCalledWith('{"v":1}');
+  });
+
+  it('reads the plaintext copy rather than an old encrypted one once encryption is unavailable', async () => {
+    await store.afterCacheAccess(cacheContext('{"v":1}', true));
+    safeStorage.available = false;
+    await store.afterCacheAccess(cacheContext('{"v":2}', true));
+
+    expect(fs.readdirSync(directory)).toEqual(['token-cache.json']);
+    const context = cacheContext();
+    await store.beforeCacheAccess(context);
+    expect(context.tokenCache.deserialize).toHaveBeenCalledWith('{"v":2}');
+  });
+
+  it('ignores an encrypted copy it cannot decrypt', async () => {
+    await store.afterCacheAccess(cacheContext('{"v":1}', true));
+    fs.writeFileSync(path.join(directory, 'token-cache.json'), '{"v":2}');
+    safeStorage.available = false;
+
+    const context = cacheContext();
+    await store.beforeCacheAccess(context);
+    expect(context.tokenCache.deserialize).toHaveBeenCalledWith('{"v":2}');
+  });
+
+  it('encrypts a plaintext copy once encryption becomes available', async () => {
+    safeStorage.available = false;
+    await store.afterCacheAccess(cacheContext('{"v":1}', true));
+    safeStorage.available = true;
+
+    const context = cacheContext();
+    await store.beforeCacheAccess(context);
+    expect(context.tokenCache.deserialize).toHaveBeenCalledWith('{"v":1}');
+    expect(fs.readdirSync(directory)).toEqual(['token-cache.bin']);
+  });
+});
@@ -0,0 +1,133 @@
+import { app, safeStorage } from 'electron';
+import { ICachePlugin, TokenCacheContext } from '@azure/msal-node';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+const ENCRYPTED_CACHE_FILE = 'token-cache.bin';
+// Only used where the OS offers no keychain for safeStorage
+const PLAINTEXT_CACHE_FILE = 'token-cache.json';
+// Where releases before the cache was encrypted kept it
+const LEGACY_CACHE_PATH = path.join(os.homedir(), '.blinkapp', 'token-cache.json');
+const CACHE_FILE_MODE = 0o600;
+
+/**
+ * MSAL cache plugin that keeps the token cache in userData, encrypted with
+ * Electron safeStorage where the OS supports it and readable only by the user
+ */
+export class TokenCacheStore implements ICachePlugin {
+  private directory: string;
+
+  constructor(directory: string = app.getPath('userData')) {
+    this.directory = directory;
+  }
+
+  async beforeCacheAccess(cacheContext: TokenCacheContext): Promise<void> {
+    try {
+      const serialized = await this.read();
+      if (serialized) {
+        cacheContext.tokenCache.deserialize(serialized);
+      }
+    } catch (error) {
+      // An unreadable cache only means signing in again
+      console.warn('[TOKENCACHE] Could not load token cache:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  async afterCacheAccess(cacheContext: TokenCacheContext): Promise<void> {
+    if (!cacheContext.cacheHasChanged) return;
+
+    try {
+      await this.write(cacheContext.tokenCache.serialize());
+    } catch (error) {
+      console.error('[TOKENCACHE] Error saving token cache:', error);
+    }
+  }
+
+  /**
+   * Delete every persisted copy of the cache, including a legacy plaintext one
+   */
+  async clear(): Promise<void> {
+    await Promise.all([
+      fs.promises.rm(this.getPath(ENCRYPTED_CACHE_FILE), { force: true }),
+      fs.promises.rm(this.getPath(PLAINTEXT_CACHE_FILE), { force: true }),
+      fs.promises.rm(LEGACY_CACHE_PATH, { force: true })
+    ]);
+    console.log('[TOKENCACHE] Token cache deleted');
+  }
+
+  /**
+   * Read the file write() would write now. An encrypted copy cannot be read
+   * while safeStorage is unavailable, and is out of date once a plaintext one
+   * has been written.
+   */
+  private async read(): Promise<string | null> {
+    const encrypt = safeStorage.isEncryptionAvailable();
+    const encryptedPath = this.getPath(ENCRYPTED_CACHE_FILE);
+    if (encrypt && fs.existsSync(encryptedPath)) {
+      return safeStorage.decryptString(await fs.promises.readFile(encryptedPath));
+    }
+
+    const plaintextPath = this.getPath(PLAINTEXT_CACHE_FILE);
+    if (fs.existsSync(plaintextPath)) {
+      const serialized = await fs.promises.readFile(plaintextPath, 'utf-8');
+      if (encrypt) {
+        // Encryption became available since the cache was written
+        await this.write(serialized);
+      }
+      return serialized;
+    }
+
+    return this.migrateLegacyCache();
+  }
+
+  /**
+   * Move a cache written by an older release into userData, encrypting it.
+   * Those releases saved the cache object itself rather than MSAL's serialized
+   * form, so a file that does not look like a serialized cache is discarded.
+   */
+  private async migrateLegacyCache(): Promise<string | null> {
+    if (!fs.existsSync(LEGACY_CACHE_PATH)) return null;
+
+    console.log('[TOKENCACHE] Migrating plaintext token cache from:', LEGACY_CACHE_PATH);
+    let serialized: string | null = null;
+    try {
+      const contents = await fs.promises.readFile(LEGACY_CACHE_PATH, 'utf-8');
+      const parsed = JSON.parse(contents);
+      if (parsed && typeof parsed === 'object' && 'Account' in parsed && 'RefreshToken' in parsed) {
+        serialized = contents;
+        await this.write(serialized);
+      } else {
+        console.log('[TOKENCACHE] Legacy token cache is not in a usable format, discarding it');
+      }
+    } catch (error) {
+      console.warn('[TOKENCACHE] Could not read legacy token cache, discarding it:', error instanceof Error ? error.message : error);
+    }
+
+    await fs.promises.rm(LEGACY_CACHE_PATH, { force: true });
+    return serialized;
+  }
+
+  private async write(serialized: string): Promise<void> {
+    await fs.promises.mkdir(this.directory, { recursive: true });
+
+    const encrypt = safeStorage.isEncryptionAvailable();
+    if (!encrypt) {
+      console.warn('[TOKENCACHE] OS encryption unavailable, storing token cache unencrypted');
+    }
+
+    const targetPath = this.getPath(encrypt ? ENCRYPTED_CACHE_FILE : PLAINTEXT_CACHE_FILE);
+    const tempPath = `${targetPath}.tmp`;
+    // Write then rename so a crash never leaves a truncated cache behind
+    await fs.promises.writeFile(tempPath, encrypt ? safeStorage.encryptString(serialized) : serialized, { mode: CACHE_FILE_MODE });
+    await fs.promises.chmod(tempPath, CACHE_FILE_MODE);
+    await fs.promises.rename(tempPath, targetPath);
+
+    // Only one copy is kept so a stale one is never read back
+    await fs.promises.rm(this.getPath(encrypt ? PLAINTEXT_CACHE_FILE : ENCRYPTED_CACHE_FILE), { force: true });
+  }
+
+  private getPath(fileName: string): string {
+    return path.join(this.directory, fileName);
+  }
+}
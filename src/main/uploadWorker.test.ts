@@ -0,0 +1,223 @@
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterAll, afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const userDataPath = fs.mkdtempSync(path.join(os.tmpdir(), 'blinkapp-worker-test-'));
+
+vi.mock('electron', () => ({
+  app: { getPath: () => userDataPath },
+  safeStorage: { isEncryptionAvailable: () => false },
+  shell: { openExternal: vi.fn() }
+}));
+
+import { DatabaseManager, ProcessingQueueItem } from './databaseManager';
+import { UploadWorker } from './uploadWorker';
+import { AuthService, UserInfo } from './authService';
+import { ApiClient } from './apiClient';
+import { ConnectivityMonitor, ConnectivityState } from './connectivityMonitor';
+
+class FakeConnectivityMonitor extends EventEmitter {
+  // Like the real monitor: online until a check says otherwise
+  state: ConnectivityState = { online: true, graphReachable: true, apiReachable: true, checkedAt: null };
+  nextCheck: ConnectivityState = { online: true, graphReachable: true, apiReachable: true, checkedAt: new Date().toISOString() };
+
+  isOnline(): boolean {
+    return this.state.online;
+  }
+
+  async checkNow(): Promise<ConnectivityState> {
+    this.state = this.nextCheck;
+    return this.state;
+  }
+}
+
+class FakeAuthService extends EventEmitter {
+  user: UserInfo | null = null;
+  users: Map<string, UserInfo> = new Map();
+  expiredSessions: Set<string> = new Set();
+  signedOutAccounts: Set<string> = new Set();
+
+  getCurrentUser(): UserInfo | null {
+    return this.user;
+  }
+
+  getUser(accountId: string): UserInfo | null {
+    return this.users.get(accountId) || null;
+  }
+
+  needsSignIn(accountId: string): boolean {
+    return this.expiredSessions.has(accountId);
+  }
+
+  wasSignedOut(accountId: string): boolean {
+    return this.signedOutAccounts.has(accountId);
+  }
+}
+
+const USER: UserInfo = {
+  id: 'account-1',
+  name: 'Pat Example',
+  email: 'pat@example.test',
+  accessToken: 'token',
+  expiresOn: new Date(Date.now() + 3600 * 1000)
+};
+
+const EXPIRED_USER: UserInfo = {
+  id: 'account-2',
+  name: 'Sam Example',
+  email: 'sam@example.test',
+  accessToken: '',
+  expiresOn: new Date(0)
+};
+
+const MISSING_ACCOUNT_ID = 'account-3';
+
+function addQueueItem(databaseManager: DatabaseManager, status: ProcessingQueueItem['status'], accountId?: string): number {
+  return databaseManager.addToProcessingQueue({
+    filePath: path.join(userDataPath, 'report.pdf'),
+    fileName: 'report.pdf',
+    fileSize: 1024,
+    status,
+    tags: '[]',
+    accountId
+  });
+}
+
+describe('UploadWorker', () => {
+  let databaseManager: DatabaseManager;
+  let connectivityMonitor: FakeConnectivityMonitor;
+  let authService: FakeAuthService;
+  let worker: UploadWorker;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    databaseManager = new DatabaseManager();
+    await databaseManager.initialize();
+    connectivityMonitor = new FakeConnectivityMonitor();
+    authService = new FakeAuthService();
+    worker = new UploadWorker({
+      databaseManager,
+      getOneDriveService: vi.fn(),
+      authService: authService as unknown as AuthService,
+      apiClient: {} as ApiClient,
+      connectivityMonitor: connectivityMonitor as unknown as ConnectivityMonitor,
+      getApiUrl: () => 'https://api.example.test',
+      getMaxAttempts: async () => undefined,
+      getRollbackOnTagFailure: async () => false
+    });
+  });
+
+  afterEach(() => {
+    worker.stop();
+    databaseManager.close();
+    fs.rmSync(path.join(userDataPath, 'blinkapp-desktop.db'), { force: true });
+    vi.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    fs.rmSync(userDataPath, { recursive: true, force: true });
+  });
+
+  it('releases items held for the network before a restart once the first check finds us online', async () => {
+    const heldId = addQueueItem(databaseManager, 'waiting_network');
+    const interruptedId = addQueueItem(databaseManager, 'processing');
+
+    worker.start();
+    await vi.waitFor(() => {
+      expect(databaseManager.getProcessingQueueItem(heldId)?.status).toBe('queued');
+    });
+    expect(databaseManager.getProcessingQueueItem(interruptedId)?.status).toBe('queued');
+  });
+
+  it('keeps items held when the first check after a restart finds us offline', async () => {
+    const heldId = addQueueItem(databaseManager, 'waiting_network');
+    connectivityMonitor.nextCheck = { online: false, graphReachable: false, apiReachable: true, checkedAt: new Date().toISOString() };
+    const checked = vi.spyOn(connectivityMonitor, 'checkNow');
+
+    worker.start();
+    await vi.waitFor(() => expect(checked).toHaveBeenCalled());
+    await checked.mock.results[0].value;
+
+    expect(databaseManager.getProcessingQueueItem(heldId)?.status).toBe('waiting_network');
+  });
+
+  describe('when signed in', () => {
+    beforeEach(() => {
+      // Only the hold and release bookkeeping is under test, not the uploads themselves
+      vi.spyOn(databaseManager, 'getNextQueuedItem').mockReturnValue(null);
+    });
+
+    it('releases items held for sign-in when a cached session is restored', () => {
+      const heldId = addQueueItem(databaseManager, 'waiting_auth');
+      worker.start();
+      expect(databaseManager.getProcessingQueueItem(heldId)?.status).toBe('waiting_auth');
+
+      authService.user = USER;
+      authService.emit('userChanged', USER);
+
+      expect(databaseManager.getProcessingQueueItem(heldId)?.status).toBe('queued');
+    });
+
+    it('releases items held for sign-in on start when an account is already signed in', () => {
+      const heldId = addQueueItem(databaseManager, 'waiting_auth');
+      authService.user = USER;
+
+      worker.start();
+
+      expect(databaseManager.getProcessingQueueItem(heldId)?.status).toBe('queued');
+    });
+  });
+
+  it('holds items for an account whose cached session expired before startup rather than failing them', async () => {
+    authService.user = USER;
+    authService.users.set(USER.id, USER);
+    authService.users.set(EXPIRED_USER.id, EXPIRED_USER);
+    authService.expiredSessions.add(EXPIRED_USER.id);
+    const itemId = addQueueItem(databaseManager, 'queued', EXPIRED_USER.id);
+
+    worker.start();
+
+    await vi.waitFor(() => {
+      expect(databaseManager.getProcessingQueueItem(itemId)?.status).toBe('waiting_auth');
+    });
+    expect(databaseManager.getProcessingQueueItem(itemId)?.attemptCount).toBe(0);
+  });
+
+  describe('when the account an item was queued under is missing', () => {
+    beforeEach(() => {
+      authService.user = USER;
+      authService.users.set(USER.id, USER);
+      // The local file is still there, so only the account decides the outcome
+      fs.writeFileSync(path.join(userDataPath, 'report.pdf'), 'report');
+    });
+
+    afterEach(() => {
+      fs.rmSync(path.join(userDataPath, 'report.pdf'), { force: true });
+    });
+
+    it('holds the item for sign-in while the session has not been restored', async () => {
+      const itemId = addQueueItem(databaseManager, 'queued', MISSING_ACCOUNT_ID);
+
+      worker.start();
+
+      await vi.waitFor(() => {
+        expect(databaseManager.getProcessingQueueItem(itemId)?.status).toBe('waiting_auth');
+      });
+    });
+
+    it('fails the item without retrying once the account was signed out', async () => {
+      authService.signedOutAccounts.add(MISSING_ACCOUNT_ID);
+      const itemId = addQueueItem(databaseManager, 'queued', MISSING_ACCOUNT_ID);
+
+      worker.start();
+
+      await vi.waitFor(() => {
+        expect(databaseManager.getProcessingQueueItem(itemId)?.status).toBe('error');
+      });
+      expect(databaseManager.getProcessingQueueItem(itemId)?.errorMessage).toMatch(/was signed out/);
+    });
+  });
+});
@@ -0,0 +1,554 @@
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
+import * as crypto from 'crypto';
+import { DatabaseManager, ProcessingQueueItem, ProcessingStep, UploadedItem } from './databaseManager';
+import { OneDriveService } from './oneDriveService';
+import { ApiClient } from './apiClient';
+import { AuthService, AuthenticationRequiredError, AccountSummary, UserInfo } from './authService';
+import { ConnectivityMonitor, ConnectivityState } from './connectivityMonitor';
+import { DEFAULT_MAX_UPLOAD_ATTEMPTS } from '../config/defaults';
+
+export interface UploadWorkerOptions {
+  databaseManager: DatabaseManager;
+  /** OneDrive service for a signed-in account */
+  getOneDriveService: (accountId: string) => Promise<OneDriveService>;
+  authService: AuthService;
+  apiClient: ApiClient;
+  connectivityMonitor: ConnectivityMonitor;
+  getApiUrl: () => string;
+  /** Upload attempts before an item is left as failed; the default is used when unset */
+  getMaxAttempts: () => Promise<number | undefined>;
+  /** Whether to delete the uploaded OneDrive item when its tags cannot be saved */
+  getRollbackOnTagFailure: () => Promise<boolean>;
+}
+
+export interface UploadResult {
+  success: boolean;
+  file_id: string;
+  one_drive_id: string;
+  web_url: string;
+  message: string;
+  associations: any[];
+}
+
+export interface UploadProgressEvent {
+  queueId: number;
+  fileName: string;
+  status: 'started' | 'uploading' | 'uploaded' | 'completed' | 'retrying' | 'waiting_network' | 'waiting_auth' | 'error';
+  bytesUploaded?: number;
+  totalBytes?: number;
+  result?: UploadResult;
+  error?: string;
+  attempt?: number;
+  retryInSeconds?: number;
+}
+
+const POLL_INTERVAL_MS = 5000;
+const PROGRESS_INTERVAL_MS = 250;
+const RETRY_BASE_DELAY_SECONDS = 30;
+const RETRY_MAX_DELAY_SECONDS = 30 * 60;
+// Failures that will not go away by trying again
+const PERMANENT_ERROR_PATTERNS = [/No OneDrive path mapping/i, /was signed out/i];
+
+/**
+ * Uploads queued files to OneDrive and tags them, independently of any window.
+ * Emits 'progress' for each job and 'queue-changed' when jobs are held for or
+ * released by the network or sign-in.
+ */
+export class UploadWorker extends EventEmitter {
+  private databaseManager: DatabaseManager;
+  private getOneDriveService: (accountId: string) => Promise<OneDriveService>;
+  private authService: AuthService;
+  private apiClient: ApiClient;
+  private connectivityMonitor: ConnectivityMonitor;
+  private getApiUrl: () => string;
+  private getMaxAttempts: () => Promise<number | undefined>;
+  private getRollbackOnTagFailure: () => Promise<boolean>;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private running = false;
+  private processing = false;
+
+  constructor(options: UploadWorkerOptions) {
+    super();
+    this.databaseManager = options.databaseManager;
+    this.getOneDriveService = options.getOneDriveService;
+    this.authService = options.authService;
+    this.apiClient = options.apiClient;
+    this.connectivityMonitor = options.connectivityMonitor;
+    this.getApiUrl = options.getApiUrl;
+    this.getMaxAttempts = options.getMaxAttempts;
+    this.getRollbackOnTagFailure = options.getRollbackOnTagFailure;
+    this.connectivityMonitor.on('changed', (state: ConnectivityState) => this.handleConnectivityChanged(state));
+    this.authService.on('session-expired', (account: AccountSummary) => this.holdQueueForSignIn(account));
+    this.authService.on('authenticated', (user: UserInfo) => this.handleSignedIn(user));
+    // Restored sessions and account switches are reported as userChanged, not authenticated
+    this.authService.on('userChanged', (user: UserInfo | null) => {
+      if (user) this.handleSignedIn(user);
+    });
+  }
+
+  /**
+   * Start taking jobs from the processing queue
+   */
+  start(): void {
+    if (this.running) return;
+
+    console.log('[UPLOADWORKER] Starting upload worker');
+    this.running = true;
+
+    const requeued = this.databaseManager.requeueInterruptedItems();
+    if (requeued > 0) {
+      console.log('[UPLOADWORKER] Requeued', requeued, 'interrupted uploads');
+    }
+
+    // With a valid session already in place no sign-in event will release held items
+    const user = this.authService.getCurrentUser();
+    if (user && !this.authService.needsSignIn(user.id)) {
+      this.handleSignedIn(user);
+    }
+
+    // Items held for the network before a restart are only released on a change
+    // in reachability, which the first check does not report when it finds us online
+    this.connectivityMonitor.checkNow().then(state => {
+      if (this.running && state.online) {
+        this.handleConnectivityChanged(state);
+      }
+    });
+
+    this.pollTimer = setInterval(() => this.processQueue(), POLL_INTERVAL_MS);
+    this.processQueue();
+  }
+
+  /**
+   * Stop taking new jobs; an upload already in progress is allowed to finish
+   */
+  stop(): void {
+    if (!this.running) return;
+
+    console.log('[UPLOADWORKER] Stopping upload worker');
+    this.running = false;
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  /**
+   * Check the queue straight away instead of waiting for the next poll
+   */
+  wake(): void {
+    this.processQueue();
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  isProcessing(): boolean {
+    return this.processing;
+  }
+
+  /**
+   * Resolve once the current upload, if any, has finished. Call after stop()
+   * to be sure the worker is no longer touching the database.
+   */
+  async waitUntilIdle(): Promise<void> {
+    while (this.processing) {
+      await new Promise(resolve => setTimeout(resolve, 200));
+    }
+  }
+
+  private async processQueue(): Promise<void> {
+    if (!this.running || this.processing) return;
+
+    // Wait for sign-in rather than failing every queued job
+    if (!this.authService.getCurrentUser()) return;
+
+    // Without the database, progress and results could not be saved
+    if (!this.databaseManager.isAvailable()) return;
+
+    if (!this.connectivityMonitor.isOnline()) {
+      this.holdQueueForNetwork();
+      return;
+    }
+
+    this.processing = true;
+    try {
+      let item = this.databaseManager.getNextQueuedItem();
+      while (this.running && item && this.connectivityMonitor.isOnline()) {
+        await this.processItem(item);
+        item = this.databaseManager.getNextQueuedItem();
+      }
+
+      // The network went while working through the queue
+      if (!this.connectivityMonitor.isOnline()) {
+        this.holdQueueForNetwork();
+      }
+    } catch (error) {
+      console.error('[UPLOADWORKER] Error processing queue:', error);
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  /**
+   * Park queued items until the network comes back
+   */
+  private holdQueueForNetwork(): void {
+    const held = this.databaseManager.holdQueuedItemsForNetwork();
+    if (held > 0) {
+      console.log('[UPLOADWORKER] Offline, holding', held, 'queued upload(s)');
+      this.emit('queue-changed');
+    }
+  }
+
+  /**
+   * Run the item's remaining steps: upload, associate tags, clean up locally.
+   * Each step is saved as it completes so a retry resumes at the one that failed
+   * and reuses the OneDrive item instead of uploading a duplicate.
+   */
+  private async processItem(item: ProcessingQueueItem): Promise<void> {
+    const fileName = item.displayName || item.fileName;
+    let step: ProcessingStep = item.uploadedItem ? item.processingStep || 'associate' : 'upload';
+    console.log('[UPLOADWORKER] Processing file:', fileName, 'from step:', step);
+
+    this.databaseManager.updateProcessingStatus(item.id, 'processing');
+    this.emitProgress({ queueId: item.id, fileName, status: 'started' });
+
+    let uploadedItem = item.uploadedItem;
+    let associations: any[] = [];
+    let accountId: string | undefined;
+    try {
+      accountId = this.resolveAccountId(item);
+      if (this.authService.needsSignIn(accountId)) {
+        throw new AuthenticationRequiredError(accountId);
+      }
+
+      if (step === 'upload' || !uploadedItem) {
+        uploadedItem = await this.uploadToOneDrive(item, fileName, await this.getOneDriveService(accountId));
+        this.databaseManager.recordUploadedItem(item.id, uploadedItem);
+        step = 'associate';
+      } else {
+        console.log('[UPLOADWORKER] Reusing uploaded OneDrive item:', uploadedItem.itemId);
+      }
+      this.emitProgress({ queueId: item.id, fileName, status: 'uploaded' });
+
+      if (step === 'associate') {
+        associations = await this.associateTags(item, uploadedItem, accountId);
+        this.databaseManager.setProcessingStep(item.id, 'cleanup');
+        step = 'cleanup';
+      }
+
+      await this.cleanUpLocalFile(item);
+
+      const result: UploadResult = {
+        success: true,
+        file_id: uploadedItem.itemId,
+        one_drive_id: uploadedItem.itemId,
+        web_url: uploadedItem.webUrl || '',
+        message: 'File uploaded and tagged successfully',
+        associations
+      };
+
+      this.databaseManager.updateProcessingStatus(item.id, 'completed');
+      const uploadedBy = this.authService.getUser(accountId);
+      this.databaseManager.addToFileHistory({
+        fileName: item.fileName,
+        displayName: fileName !== item.fileName ? fileName : undefined,
+        filePath: item.filePath,
+        fileSize: item.fileSize,
+        tags: item.tags || '[]',
+        folderPath: item.folderPath,
+        entityId: item.entityId,
+        transactionId: item.transactionId,
+        stageKey: item.stageKey,
+        notes: item.notes,
+        oneDriveItemId: uploadedItem.itemId,
+        driveId: uploadedItem.driveId,
+        oneDrivePath: uploadedItem.path,
+        webUrl: uploadedItem.webUrl,
+        contentHash: uploadedItem.contentHash,
+        uploadedBy: uploadedBy ? uploadedBy.email || uploadedBy.name : undefined
+      });
+      console.log('[UPLOADWORKER] File processed successfully:', fileName);
+      this.emitProgress({ queueId: item.id, fileName, status: 'completed', result });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error('[UPLOADWORKER] Error processing file:', fileName, 'at step:', step, error);
+      if (this.isSignInRequired(error, accountId)) {
+        this.holdItemForSignIn(item, fileName);
+        return;
+      }
+      await this.handleFailure({ ...item, processingStep: step, uploadedItem }, fileName, errorMessage);
+    }
+  }
+
+  /**
+   * The account that uploads an item: the one it was queued under, or the
+   * active account for items queued before anyone signed in, which is then
+   * recorded so retries stay with it. An account that is missing only because
+   * its session has not been restored yet holds the item for sign-in.
+   */
+  private resolveAccountId(item: ProcessingQueueItem): string {
+    if (item.accountId) {
+      if (this.authService.getUser(item.accountId)) {
+        return item.accountId;
+      }
+      if (this.authService.wasSignedOut(item.accountId)) {
+        throw new Error('The Microsoft account this file was queued under was signed out. Sign in to it again or queue the file again under another account.');
+      }
+      throw new AuthenticationRequiredError(item.accountId);
+    }
+
+    const currentUser = this.authService.getCurrentUser();
+    if (!currentUser) {
+      throw new Error('Sign in with a Microsoft account to upload files');
+    }
+    const accountId = currentUser.id;
+    this.databaseManager.setQueueItemAccount(item.id, accountId);
+    item.accountId = accountId;
+    return accountId;
+  }
+
+  private async uploadToOneDrive(item: ProcessingQueueItem, fileName: string, oneDriveService: OneDriveService): Promise<UploadedItem> {
+    // Hash before uploading; the local copy is deleted once processing completes
+    const contentHash = await this.hashFile(item.filePath);
+
+    let lastProgressAt = 0;
+    const oneDriveResult = await oneDriveService.uploadFile(
+      item.filePath,
+      fileName,
+      this.resolveFolderPath(item.folderPath),
+      {
+        driveId: item.targetDriveId,
+        resumeSession: item.uploadSessionUrl
+          ? { uploadUrl: item.uploadSessionUrl, nextOffset: item.uploadOffset || 0 }
+          : null,
+        onSessionUpdate: (session) => {
+          this.databaseManager.saveUploadSession(item.id, session?.uploadUrl || null, session?.nextOffset);
+        },
+        onProgress: (bytesUploaded, totalBytes) => {
+          // Throttle so the renderer is not flooded with IPC messages
+          const now = Date.now();
+          if (now - lastProgressAt < PROGRESS_INTERVAL_MS && bytesUploaded < totalBytes) return;
+          lastProgressAt = now;
+          this.emitProgress({ queueId: item.id, fileName, status: 'uploading', bytesUploaded, totalBytes });
+        }
+      }
+    );
+
+    return {
+      itemId: oneDriveResult.id,
+      driveId: oneDriveResult.driveId,
+      path: oneDriveResult.path,
+      webUrl: oneDriveResult.webUrl,
+      contentHash
+    };
+  }
+
+  /**
+   * Create tag associations using the backend API (only if tags are selected)
+   */
+  private async associateTags(item: ProcessingQueueItem, uploadedItem: UploadedItem, accountId: string): Promise<any[]> {
+    const tagIds: number[] = JSON.parse(item.tags || '[]');
+    if (tagIds.length === 0) {
+      console.log('[UPLOADWORKER] No tags selected, skipping tag associations');
+      return [];
+    }
+
+    // Items uploaded before drive IDs were recorded fall back to where they were sent
+    const driveId = uploadedItem.driveId
+      || item.targetDriveId
+      || await (await this.getOneDriveService(accountId)).getDefaultDriveId();
+
+    return this.apiClient.createFileTagAssociations(
+      this.getApiUrl(),
+      tagIds.map(tagId => ({
+        file_id: uploadedItem.itemId,
+        tag_id: tagId,
+        item_type: 'file' as const,
+        drive_id: driveId,
+        notes: `Uploaded via BrokerNet Desktop on ${new Date().toLocaleString()}`
+      }))
+    );
+  }
+
+  /**
+   * Delete the file from the drop folder after successful processing
+   */
+  private async cleanUpLocalFile(item: ProcessingQueueItem): Promise<void> {
+    try {
+      await fs.promises.unlink(item.filePath);
+      console.log('[UPLOADWORKER] Deleted processed file from drop folder:', item.filePath);
+    } catch (deleteError: any) {
+      // Don't fail the entire process if file deletion fails
+      if (deleteError.code !== 'ENOENT') {
+        console.warn('[UPLOADWORKER] Failed to delete file from drop folder:', deleteError);
+      }
+    }
+  }
+
+  /**
+   * Whether a job failed because its account, or the active account used for
+   * the BrokerNet API, has to sign in again. Services may wrap the original
+   * error, so the accounts' session state is checked as well.
+   */
+  private isSignInRequired(error: unknown, accountId: string | undefined): boolean {
+    if (error instanceof AuthenticationRequiredError) return true;
+
+    const activeAccountId = this.authService.getCurrentUser()?.id;
+    return [accountId, activeAccountId].some(id => !!id && this.authService.needsSignIn(id));
+  }
+
+  /**
+   * Park a job until someone signs in, without using up an attempt. Steps
+   * already completed are kept, so it resumes where it stopped.
+   */
+  private holdItemForSignIn(item: ProcessingQueueItem, fileName: string): void {
+    const message = 'Waiting for you to sign in to Microsoft again';
+    console.log('[UPLOADWORKER] Sign-in required, holding file until it is done:', fileName);
+    this.databaseManager.updateProcessingStatus(item.id, 'waiting_auth', message);
+    this.emitProgress({ queueId: item.id, fileName, status: 'waiting_auth', error: message });
+  }
+
+  private holdQueueForSignIn(account: AccountSummary): void {
+    const held = this.databaseManager.holdQueuedItemsForAuth(account.id);
+    if (held > 0) {
+      console.log('[UPLOADWORKER] Session expired, holding', held, 'queued upload(s) for:', account.email || account.name);
+      this.emit('queue-changed');
+    }
+  }
+
+  private handleSignedIn(user: UserInfo): void {
+    const released = this.databaseManager.releaseItemsWaitingForAuth();
+    if (released > 0) {
+      console.log('[UPLOADWORKER] Signed in as', user.email || user.name, '- resuming', released, 'held upload(s)');
+      this.emit('queue-changed');
+    }
+    this.processQueue();
+  }
+
+  private handleConnectivityChanged(state: ConnectivityState): void {
+    if (!state.online) {
+      this.processQueue();
+      return;
+    }
+
+    const released = this.databaseManager.releaseItemsWaitingForNetwork();
+    if (released > 0) {
+      console.log('[UPLOADWORKER] Network is back, resuming', released, 'held upload(s)');
+      this.emit('queue-changed');
+    }
+    this.processQueue();
+  }
+
+  /**
+   * Schedule another attempt with exponential backoff, or give up once the
+   * attempt limit is reached or the error cannot be fixed by retrying. A
+   * failure caused by losing the network holds the item without using an attempt.
+   */
+  private async handleFailure(item: ProcessingQueueItem, fileName: string, errorMessage: string): Promise<void> {
+    // Only the upload step needs the local file; later steps work on the OneDrive item
+    const localFileMissing = item.processingStep === 'upload' && !fs.existsSync(item.filePath);
+
+    if (!localFileMissing && !(await this.connectivityMonitor.checkNow()).online) {
+      console.log('[UPLOADWORKER] Network unavailable, holding file until it returns:', fileName);
+      this.databaseManager.updateProcessingStatus(item.id, 'waiting_network', errorMessage);
+      this.emitProgress({ queueId: item.id, fileName, status: 'waiting_network', error: errorMessage });
+      return;
+    }
+
+    const attempt = (item.attemptCount || 0) + 1;
+    const maxAttempts = await this.resolveMaxAttempts();
+    const permanent = localFileMissing || PERMANENT_ERROR_PATTERNS.some(pattern => pattern.test(errorMessage));
+
+    if (permanent || attempt >= maxAttempts) {
+      console.log('[UPLOADWORKER] Giving up on file after', attempt, 'attempt(s):', fileName);
+      if (item.processingStep === 'associate' && item.uploadedItem) {
+        errorMessage = await this.rollBackUpload(item, errorMessage);
+      }
+      this.databaseManager.recordUploadFailure(item.id, errorMessage, null);
+      this.emitProgress({ queueId: item.id, fileName, status: 'error', error: errorMessage, attempt });
+      return;
+    }
+
+    const retryInSeconds = this.getRetryDelaySeconds(attempt);
+    console.log('[UPLOADWORKER] Retrying file in', retryInSeconds, 'seconds (attempt', attempt, 'of', maxAttempts + '):', fileName);
+    this.databaseManager.recordUploadFailure(item.id, errorMessage, retryInSeconds);
+    this.emitProgress({ queueId: item.id, fileName, status: 'retrying', error: errorMessage, attempt, retryInSeconds });
+  }
+
+  /**
+   * Delete an uploaded item whose tags could not be saved, if the user asked
+   * for that, so OneDrive is not left with an untagged copy. Returns the error
+   * message to record, noting what happened to the remote item.
+   */
+  private async rollBackUpload(item: ProcessingQueueItem, errorMessage: string): Promise<string> {
+    const uploadedItem = item.uploadedItem!;
+    let rollback = false;
+    try {
+      rollback = await this.getRollbackOnTagFailure();
+    } catch (error) {
+      console.warn('[UPLOADWORKER] Could not read rollback preference:', error);
+    }
+
+    if (!rollback) {
+      return `${errorMessage} (the file is in OneDrive but untagged; retrying will only add the tags)`;
+    }
+
+    try {
+      const oneDriveService = await this.getOneDriveService(this.resolveAccountId(item));
+      await oneDriveService.deleteItem(uploadedItem.itemId, uploadedItem.driveId);
+      this.databaseManager.clearUploadedItem(item.id);
+      console.log('[UPLOADWORKER] Rolled back upload of untagged item:', uploadedItem.itemId);
+      return `${errorMessage} (the uploaded file was removed from OneDrive)`;
+    } catch (error) {
+      console.error('[UPLOADWORKER] Error rolling back upload:', error);
+      const rollbackError = error instanceof Error ? error.message : String(error);
+      return `${errorMessage} (removing the untagged file from OneDrive also failed: ${rollbackError})`;
+    }
+  }
+
+  private async resolveMaxAttempts(): Promise<number> {
+    try {
+      const maxAttempts = await this.getMaxAttempts();
+      return maxAttempts && maxAttempts >= 1 ? Math.floor(maxAttempts) : DEFAULT_MAX_UPLOAD_ATTEMPTS;
+    } catch (error) {
+      console.warn('[UPLOADWORKER] Could not read upload attempt limit, using default:', error);
+      return DEFAULT_MAX_UPLOAD_ATTEMPTS;
+    }
+  }
+
+  /**
+   * Double the delay for each failed attempt up to a cap, with jitter so that
+   * items which failed together do not all retry at the same moment
+   */
+  private getRetryDelaySeconds(attempt: number): number {
+    const delay = Math.min(RETRY_MAX_DELAY_SECONDS, RETRY_BASE_DELAY_SECONDS * Math.pow(2, attempt - 1));
+    return Math.ceil(delay / 2 + Math.random() * delay / 2);
+  }
+
+  private hashFile(filePath: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const hash = crypto.createHash('sha256');
+      fs.createReadStream(filePath)
+        .on('data', chunk => hash.update(chunk))
+        .on('end', () => resolve(hash.digest('hex')))
+        .on('error', reject);
+    });
+  }
+
+  /**
+   * Convert the folder chosen in the UI to the form the OneDrive service expects
+   */
+  private resolveFolderPath(folderPath?: string): string | undefined {
+    if (!folderPath || folderPath === 'root' || folderPath.startsWith('OneDrive Root')) {
+      return undefined; // Let OneDrive service use default
+    }
+    return folderPath;
+  }
+
+  private emitProgress(event: UploadProgressEvent): void {
+    this.emit('progress', event);
+  }
+}
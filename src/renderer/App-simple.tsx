@@ -3,6 +3,18 @@ import './App.css';
 import { getEnvironmentConfig, DEFAULT_ENVIRONMENT, EnvironmentConfig } from '../config/environment';
 import EnvironmentSwitcher from './components/EnvironmentSwitcher';
 import UpdateNotification from './components/UpdateNotification';
+import PathMappingSettings from './components/PathMappingSettings';
+import RoutingRulesEditor from './components/RoutingRulesEditor';
+import BackupSettings from './components/BackupSettings';
+import AccountSettingsPanel from './components/AccountSettingsPanel';
+import { DriveTarget } from './components/DriveSelect';
+import { ProcessingQueue } from './components/ProcessingQueue';
+import { FileHistory } from './components/FileHistory';
+import DatabaseHealthBanner from './components/DatabaseHealthBanner';
+import { AccountSettings, PathMapping, isLocalPath, localToRemote, remoteToLocal, resolvePathMappings, resolveAccountPathMappings } from '../config/pathMapping';
+import { RoutingRule } from '../config/routingRules';
+import { DEFAULT_MAX_UPLOAD_ATTEMPTS, DEFAULT_BACKUP_RETENTION } from '../config/defaults';
+import { parseDbTimestamp, formatFileSize } from './utils/format';
 
 // Dynamic API URL - will be set by environment switcher
 let API_BASE_URL = getEnvironmentConfig().apiBaseUrl;
@@ -11,6 +23,17 @@ interface UserPreferences {
   dropFolderPath: string;
   oneDriveRootFolder: string;
   autoProcess: boolean;
+  pathMappings?: PathMapping[];
+  routingRules?: RoutingRule[];
+  maxUploadAttempts?: number;
+  rollbackOnTagFailure?: boolean;
+  apiScope?: string;
+  signInMethod?: 'auto' | 'browser' | 'device-code';
+  backupRetentionCount?: number;
+  /** Account made active at startup when it is still signed in */
+  activeAccountId?: string;
+  /** Drive and path mappings remembered for each signed-in account */
+  accountSettings?: Record<string, AccountSettings>;
 }
 
 interface UserInfo {
@@ -21,7 +44,55 @@ interface UserInfo {
   expiresOn: Date;
 }
 
+interface AccountSummary {
+  id: string;
+  name: string;
+  email: string;
+  isActive: boolean;
+  needsSignIn: boolean;
+  hasSharePointAccess: boolean;
+}
+
+// Value of the account switcher option that signs in another account
+const ADD_ACCOUNT_OPTION = '__add-account__';
+
+interface TagCategoriesResult {
+  categories: any[];
+  fetchedAt: string | null;
+  isStale: boolean;
+  refreshFailed: boolean;
+  apiUrl: string;
+}
+
+const TAG_RETRY_INTERVAL_MS = 60 * 1000;
+
+interface ConnectivityState {
+  online: boolean;
+  graphReachable: boolean;
+  apiReachable: boolean;
+  checkedAt: string | null;
+}
+
+interface ThrottleState {
+  throttled: boolean;
+  resumeAt?: string;
+  retryAfterSeconds?: number;
+  status?: number;
+}
+
+interface UploadProgressEvent {
+  queueId: number;
+  fileName: string;
+  status: 'started' | 'uploading' | 'uploaded' | 'completed' | 'retrying' | 'waiting_network' | 'waiting_auth' | 'error';
+  bytesUploaded?: number;
+  totalBytes?: number;
+  result?: any;
+  error?: string;
+}
+
 interface FileProcessingState {
+  id: number; // processing_queue row id
+  status: ProcessingQueueItem['status'];
   fileName: string;
   displayName: string; // User-editable display name for the file
   filePath: string;
@@ -30,10 +101,56 @@ interface FileProcessingState {
   selectedTags: number[];
   isProcessing: boolean;
   isProcessed: boolean;
+  uploadProgress?: { bytesUploaded: number; totalBytes: number };
   result?: any;
   error?: string;
 }
 
+interface ProcessingQueueItem {
+  id: number;
+  filePath: string;
+  fileName: string;
+  displayName?: string;
+  fileSize: number;
+  status: 'pending' | 'queued' | 'waiting_network' | 'waiting_auth' | 'processing' | 'completed' | 'error';
+  tags: string;
+  folderPath?: string;
+  errorMessage?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Convert a local sync folder to the OneDrive path shown to the user
+const toDisplayFolder = (folderPath: string, mappings: PathMapping[]): string => {
+  if (!isLocalPath(folderPath)) {
+    return folderPath;
+  }
+  const location = localToRemote(folderPath, mappings);
+  if (!location) {
+    // Left as a local path; the upload reports the missing mapping
+    return folderPath;
+  }
+  return location.remotePath || 'OneDrive Root';
+};
+
+// Convert the configured OneDrive root folder to a user-friendly display path
+const getDefaultDisplayFolder = (preferences: UserPreferences): string => {
+  const rootFolder = preferences.oneDriveRootFolder;
+  if (rootFolder === '/' || rootFolder === '' || !rootFolder) {
+    return resolvePathMappings(preferences).length > 0 ? 'OneDrive Root' : 'OneDrive Root (Configure in Settings)';
+  }
+  return toDisplayFolder(rootFolder, resolvePathMappings(preferences));
+};
+
+const parseQueueTags = (tags: string): number[] => {
+  try {
+    const parsed = JSON.parse(tags || '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
 const App: React.FC = () => {
   const [activeTab, setActiveTab] = useState('file-processor');
   const [preferences, setPreferences] = useState<UserPreferences>({
@@ -45,12 +162,19 @@ const App: React.FC = () => {
   const [detectedFiles, setDetectedFiles] = useState<FileProcessingState[]>([]);
   const [tagCategories, setTagCategories] = useState<any[]>([]);
   const [isLoadingTags, setIsLoadingTags] = useState(false);
+  const [tagCategoriesStatus, setTagCategoriesStatus] = useState<{ refreshFailed: boolean; fetchedAt: string | null } | null>(null);
   const [currentUser, setCurrentUser] = useState<UserInfo | null>(null);
+  const [accounts, setAccounts] = useState<AccountSummary[]>([]);
+  // Drives the active account can upload to; null when they could not be listed
+  const [driveTargets, setDriveTargets] = useState<DriveTarget[] | null>([]);
   const [isAuthenticating, setIsAuthenticating] = useState(false);
   const [preferencesLoaded, setPreferencesLoaded] = useState(false);
   const loadedPreferencesRef = useRef<UserPreferences | null>(null);
   const [currentEnvironment, setCurrentEnvironment] = useState<EnvironmentConfig>(getEnvironmentConfig());
   const [showUpdateNotification, setShowUpdateNotification] = useState(false);
+  const [graphThrottle, setGraphThrottle] = useState<ThrottleState | null>(null);
+  const [connectivity, setConnectivity] = useState<ConnectivityState | null>(null);
+  const [apiAuthRequired, setApiAuthRequired] = useState(false);
 
   useEffect(() => {
     const initializeApp = async () => {
@@ -65,10 +189,20 @@ const App: React.FC = () => {
     const handleUserAuthenticated = (user: any) => {
       console.log('[APP] Received auto-login user:', user);
       setCurrentUser(user);
+      loadAccounts();
+    };
+
+    // Sign-out clears tokens and cached data in the main process; forget the user here too
+    const handleUserSignedOut = () => {
+      console.log('[APP] User signed out');
+      setCurrentUser(null);
+      setAccounts([]);
+      setApiAuthRequired(false);
     };
 
     if (window.electronAPI) {
       window.electronAPI.onUserAuthenticated?.(handleUserAuthenticated);
+      window.electronAPI.onUserSignedOut?.(handleUserSignedOut);
     }
 
     // Listen for switch-to-settings events from main process
@@ -99,17 +233,88 @@ const App: React.FC = () => {
           };
   }, []);
 
-  // Start file watcher after preferences are loaded
+  // Auto-load existing files in the drop folder once preferences are loaded
   useEffect(() => {
     if (preferencesLoaded && preferences.dropFolderPath) {
-      console.log('[APP] Starting file watcher after preferences loaded');
-      setupFileWatcher();
-      
-      // Auto-load existing files in the drop folder when app starts
       loadExistingFiles();
     }
   }, [preferencesLoaded, preferences.dropFolderPath]);
 
+  // Events from the main process are subscribed once for the lifetime of the window
+  useEffect(() => {
+    if (!window.electronAPI) {
+      return;
+    }
+
+    // Uploads are held while Graph or the API cannot be reached
+    window.electronAPI.getConnectivityState().then(setConnectivity);
+
+    const unsubscribers = [
+      // Detected files are saved to the processing queue by the main process
+      window.electronAPI.onQueueUpdated(() => {
+        console.log('[APP] Processing queue updated');
+        loadProcessingQueue();
+      }),
+
+      // Keep upload progress and results from the background worker for the file cards
+      window.electronAPI.onUploadProgress((event: UploadProgressEvent) => {
+        if (event.status === 'uploading' && event.totalBytes) {
+          const uploadProgress = { bytesUploaded: event.bytesUploaded || 0, totalBytes: event.totalBytes };
+          setDetectedFiles(prev => prev.map(file => 
+            file.id === event.queueId ? { ...file, uploadProgress } : file
+          ));
+          return;
+        }
+
+        console.log('[APP] Upload progress:', event.fileName, event.status);
+        if (event.status === 'completed' && event.result) {
+          setDetectedFiles(prev => prev.map(file => 
+            file.id === event.queueId ? { ...file, result: event.result } : file
+          ));
+        }
+      }),
+
+      // The BrokerNet API rejected even a freshly issued token
+      window.electronAPI.onApiAuthRequired(() => {
+        console.log('[APP] BrokerNet API requires sign-in');
+        setApiAuthRequired(true);
+      }),
+
+      // A token could not be renewed silently; uploads for the account are held
+      window.electronAPI.onSessionExpired((account: AccountSummary) => {
+        console.log('[APP] Session expired for:', account.email || account.name);
+        loadAccounts();
+      }),
+
+      window.electronAPI.onConnectivityChanged((state: ConnectivityState) => {
+        console.log('[APP] Connectivity changed:', state);
+        setConnectivity(state);
+      }),
+
+      // Microsoft Graph asked us to slow down; uploads pause until resumeAt
+      window.electronAPI.onGraphThrottled((state: ThrottleState) => {
+        console.log('[APP] Graph throttling:', state);
+        setGraphThrottle(state.throttled ? state : null);
+      }),
+
+      // Cached tag categories were refreshed from the backend, or the backend became unreachable
+      window.electronAPI.onTagCategoriesUpdated((result: TagCategoriesResult) => {
+        console.log('[APP] Tag categories updated:', result.categories.length, result.isStale ? '(stale)' : '');
+        applyTagCategories(result);
+      }),
+
+      // Listen for notification click events
+      window.electronAPI.onNotificationClicked((data: { fileName: string; filePath: string }) => {
+        console.log('[APP] Notification clicked:', data);
+        handleNotificationClicked(data);
+      })
+    ];
+
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+    };
+  }, []);
+
   const loadExistingFiles = async () => {
     try {
       if (!preferences.dropFolderPath) {
@@ -123,10 +328,9 @@ const App: React.FC = () => {
         const existingFiles = await window.electronAPI.listFilesInFolder(preferences.dropFolderPath);
         console.log('[APP] Found existing files:', existingFiles);
         
-        // Add existing files to the detected files list
-        existingFiles.forEach((filePath: string) => {
-          handleFileDetected(filePath, preferences);
-        });
+        // Add existing files to the processing queue
+        await window.electronAPI.addFilesToQueue(existingFiles);
+        await loadProcessingQueue();
       } else {
         console.log('[APP] listFilesInFolder API not available, skipping existing file load');
       }
@@ -135,15 +339,20 @@ const App: React.FC = () => {
     }
   };
 
+  const applyTagCategories = (result: TagCategoriesResult) => {
+    setTagCategories(result.categories || []);
+    setTagCategoriesStatus({ refreshFailed: result.refreshFailed, fetchedAt: result.fetchedAt });
+  };
+
   const loadTagCategories = async () => {
     try {
       setIsLoadingTags(true);
       console.log('[APP] Loading tag categories using electronAPI...');
       
       if (window.electronAPI) {
-        const categories = await window.electronAPI.getTagCategories();
-        console.log('[APP] Loaded tag categories:', categories?.length || 0);
-        setTagCategories(categories || []);
+        const result = await window.electronAPI.getTagCategories();
+        console.log('[APP] Loaded tag categories:', result.categories.length, result.isStale ? '(stale)' : '');
+        applyTagCategories(result);
       } else {
         console.error('[APP] electronAPI not available');
         setTagCategories([]);
@@ -162,19 +371,33 @@ const App: React.FC = () => {
         const user = await window.electronAPI.getCurrentUser();
         setCurrentUser(user);
         console.log('[APP] Current user:', user);
+        await loadAccounts();
       }
     } catch (error) {
       console.error('[APP] Error checking authentication:', error);
     }
   };
 
+  const loadAccounts = async () => {
+    try {
+      if (window.electronAPI) {
+        setAccounts(await window.electronAPI.getAccounts());
+      }
+    } catch (error) {
+      console.error('[APP] Error loading accounts:', error);
+    }
+  };
+
   const handleAuthenticate = async () => {
     try {
       setIsAuthenticating(true);
       if (window.electronAPI) {
         const user = await window.electronAPI.authenticateUser();
         setCurrentUser(user);
+        setApiAuthRequired(false);
         console.log('[APP] User authenticated:', user);
+        await loadAccounts();
+        savePreferences({ ...preferences, activeAccountId: user.id });
       }
     } catch (error) {
       console.error('[APP] Error authenticating:', error);
@@ -184,18 +407,81 @@ const App: React.FC = () => {
     }
   };
 
+  const handleSwitchAccount = async (accountId: string) => {
+    try {
+      if (window.electronAPI) {
+        const user = await window.electronAPI.switchAccount(accountId);
+        setCurrentUser(user);
+        setApiAuthRequired(false);
+        console.log('[APP] Switched to account:', user.name);
+        await loadAccounts();
+        savePreferences({ ...preferences, activeAccountId: accountId });
+      }
+    } catch (error) {
+      console.error('[APP] Error switching account:', error);
+      alert('Could not switch account: ' + error);
+    }
+  };
+
+  const handleAccountSettingsChange = (settings: AccountSettings) => {
+    if (!currentUser) return;
+    savePreferences({
+      ...preferences,
+      accountSettings: { ...preferences.accountSettings, [currentUser.id]: settings }
+    });
+  };
+
+  // Signs out the active account; other signed-in accounts stay signed in
   const handleSignOut = async () => {
     try {
       if (window.electronAPI) {
-        await window.electronAPI.signOutUser();
-        setCurrentUser(null);
-        console.log('[APP] User signed out');
+        const signedOut = await window.electronAPI.signOutUser(currentUser?.id);
+        if (!signedOut) {
+          alert('Sign out failed. Please try again.');
+        }
       }
     } catch (error) {
       console.error('[APP] Error signing out:', error);
     }
   };
 
+  // Each account has its own OneDrive and SharePoint sites
+  useEffect(() => {
+    if (currentUser) {
+      loadDriveTargets();
+    } else {
+      setDriveTargets([]);
+    }
+  }, [currentUser?.id]);
+
+  const loadDriveTargets = async () => {
+    try {
+      if (window.electronAPI) {
+        setDriveTargets(await window.electronAPI.getOneDriveDrives());
+      }
+    } catch (error) {
+      console.error('[APP] Error listing drives:', error);
+      setDriveTargets(null);
+    }
+  };
+
+  // SharePoint needs consent beyond the initial sign-in, asked for the first time it is wanted
+  const handleEnableSharePoint = async () => {
+    try {
+      if (window.electronAPI) {
+        const result = await window.electronAPI.requestSharePointAccess();
+        if (!result.success) {
+          alert(`Could not get access to SharePoint: ${result.error || 'unknown error'}`);
+          return;
+        }
+        loadAccounts();
+        loadDriveTargets();
+      }
+    } catch (error) {
+      console.error('[APP] Error requesting SharePoint access:', error);
+    }
+  };
+
   useEffect(() => {
     // Start file watcher when drop folder path changes
     if (preferences.dropFolderPath) {
@@ -203,31 +489,45 @@ const App: React.FC = () => {
     }
   }, [preferences.dropFolderPath]);
 
-  // Process any pending files when preferences are loaded
+  // Reload the queue when preferences are loaded so default folders are up to date
   useEffect(() => {
-    if (preferencesLoaded && detectedFiles.length > 0) {
-      console.log('[APP] Preferences loaded, processing any pending files');
-      // Re-process all detected files with the correct preferences
-      setDetectedFiles(prev => prev.map(file => {
-        // Convert OneDrive root folder to user-friendly display path
-        let displayFolder = preferences.oneDriveRootFolder;
-        if (displayFolder === '/' || displayFolder === '' || !displayFolder) {
-          displayFolder = 'OneDrive Root';
-        } else if (displayFolder.includes('\\')) {
-          // Convert Windows path to user-friendly format
-          displayFolder = displayFolder
-            .replace(/^E:\\365\\/, '') // Remove E:\365\ prefix
-            .replace(/\\/g, '/'); // Convert backslashes to forward slashes
-        }
-        
-        return {
-          ...file,
-          selectedFolder: displayFolder
-        };
-      }));
+    if (preferencesLoaded) {
+      console.log('[APP] Preferences loaded, refreshing processing queue');
+      loadProcessingQueue();
     }
   }, [preferencesLoaded, preferences.oneDriveRootFolder]);
 
+  const loadProcessingQueue = async (loadedPrefs?: UserPreferences) => {
+    try {
+      if (!window.electronAPI) {
+        return;
+      }
+
+      const currentPrefs = loadedPrefs || loadedPreferencesRef.current || preferences;
+      const items: ProcessingQueueItem[] = await window.electronAPI.getProcessingQueue();
+      console.log('[APP] Loaded processing queue:', items.length);
+
+      setDetectedFiles(prev => items.map(item => ({
+        id: item.id,
+        status: item.status,
+        fileName: item.fileName,
+        displayName: item.displayName || item.fileName,
+        filePath: item.filePath,
+        timestamp: parseDbTimestamp(item.createdAt),
+        selectedFolder: item.folderPath || getDefaultDisplayFolder(currentPrefs),
+        selectedTags: parseQueueTags(item.tags),
+        isProcessing: item.status === 'queued' || item.status === 'waiting_network' || item.status === 'waiting_auth' || item.status === 'processing',
+        isProcessed: item.status === 'completed',
+        // Upload progress and results are only held in memory for the current session
+        uploadProgress: item.status === 'processing' ? prev.find(file => file.id === item.id)?.uploadProgress : undefined,
+        result: prev.find(file => file.id === item.id)?.result,
+        error: item.status === 'error' ? item.errorMessage || 'Processing failed' : undefined
+      })));
+    } catch (error) {
+      console.error('[APP] Error loading processing queue:', error);
+    }
+  };
+
   const loadPreferences = async () => {
     try {
       if (window.electronAPI) {
@@ -257,23 +557,7 @@ const App: React.FC = () => {
           }, 100);
           
           // Update existing detected files with the correct folder path
-          setDetectedFiles(prev => prev.map(file => {
-            // Convert OneDrive root folder to user-friendly display path
-            let displayFolder = savedPrefs.oneDriveRootFolder;
-            if (displayFolder === '/' || displayFolder === '' || !displayFolder) {
-              displayFolder = 'OneDrive Root';
-            } else if (displayFolder.includes('\\')) {
-              // Convert Windows path to user-friendly format
-              displayFolder = displayFolder
-                .replace(/^E:\\365\\/, '') // Remove E:\365\ prefix
-                .replace(/\\/g, '/'); // Convert backslashes to forward slashes
-            }
-            
-            return {
-              ...file,
-              selectedFolder: displayFolder
-            };
-          }));
+          loadProcessingQueue(savedPrefs);
         } else {
           console.log('[APP] No saved preferences found, using defaults');
           console.log('[APP] Current default preferences:', preferences);
@@ -361,19 +645,20 @@ const App: React.FC = () => {
     }
   };
 
-  const setupFileWatcher = () => {
-    if (window.electronAPI) {
-      // Listen for file detection events from main process
-      window.electronAPI.onFileDetected((filePath: string) => {
-        console.log('[APP] File detected:', filePath);
-        handleFileDetected(filePath);
-      });
+  // Accounts whose sign-in has to be renewed before their uploads continue
+  const expiredAccounts = accounts.filter(account => account.needsSignIn);
 
-      // Listen for notification click events
-      window.electronAPI.onNotificationClicked((data: { fileName: string; filePath: string }) => {
-        console.log('[APP] Notification clicked:', data);
-        handleNotificationClicked(data);
-      });
+  const getProcessingLabel = (file: FileProcessingState): string => {
+    if (file.status === 'waiting_network') return '📴 Waiting for network';
+    if (file.status === 'waiting_auth') return '🔐 Waiting for sign-in';
+    return file.status === 'queued' ? '⏳ Queued' : '⏳ Processing...';
+  };
+
+  const handleCheckConnectivity = async () => {
+    try {
+      setConnectivity(await window.electronAPI.checkConnectivity());
+    } catch (error) {
+      console.error('[APP] Error checking connectivity:', error);
     }
   };
 
@@ -393,123 +678,14 @@ const App: React.FC = () => {
     }
   };
 
-  const handleFileDetected = (filePath: string, loadedPrefs?: any) => {
-    console.log('[APP] File detected:', filePath);
-    console.log('[APP] Current preferences:', preferences);
-    console.log('[APP] Preferences loaded:', preferencesLoaded);
-    console.log('[APP] Loaded preferences parameter:', loadedPrefs);
-    
-    // Use loaded preferences from ref if available, otherwise use current state
-    const currentPrefs = loadedPrefs || loadedPreferencesRef.current || preferences;
-    
-    // Don't process files until we have preferences
-    if (!currentPrefs || !preferencesLoaded) {
-      console.log('[APP] Preferences not loaded yet, skipping file processing');
-      return;
-    }
-    
-    const fileName = filePath.split('\\').pop() || filePath.split('/').pop() || 'Unknown file';
-    
-    // Check if file already exists in the list to prevent duplicates
-    setDetectedFiles(prev => {
-      const exists = prev.some(file => file.filePath === filePath);
-      if (!exists) {
-        console.log('[APP] Adding new file to list:', fileName);
-        
-        // Convert OneDrive root folder to user-friendly display path
-        let displayFolder = currentPrefs.oneDriveRootFolder;
-        console.log('[APP] Raw OneDrive root folder:', displayFolder);
-        
-        if (displayFolder === '/' || displayFolder === '' || !displayFolder) {
-          // If no OneDrive root folder is configured, try to infer it from the file path
-          // and suggest it to the user
-          const fileDriveRoot = filePath.substring(0, filePath.indexOf('\\', 3)); // E:\365\OneDrive - Broadlink
-          if (fileDriveRoot.includes('OneDrive')) {
-            displayFolder = 'OneDrive Root (Configure in Settings)';
-            console.log('[APP] No OneDrive root configured, inferred from file path:', fileDriveRoot);
-          } else {
-            displayFolder = 'OneDrive Root';
-          }
-        } else if (displayFolder.includes('\\')) {
-          // Convert Windows path to user-friendly format
-          displayFolder = displayFolder
-            .replace(/^E:\\365\\/, '') // Remove E:\365\ prefix
-            .replace(/\\/g, '/'); // Convert backslashes to forward slashes
-        }
-        
-        console.log('[APP] Display folder for new file:', displayFolder);
-        
-        const newFile: FileProcessingState = {
-          fileName,
-          displayName: fileName, // Initialize with original filename
-          filePath,
-          timestamp: new Date(),
-          selectedFolder: displayFolder,
-          selectedTags: [],
-          isProcessing: false,
-          isProcessed: false
-        };
-        return [...prev, newFile];
-      } else {
-        console.log('[APP] File already exists in list, skipping:', fileName);
-        return prev;
-      }
-    });
-  };
-
   const handleNotificationClicked = (data: { fileName: string; filePath: string }) => {
     console.log('[APP] Notification clicked, switching to file processor tab');
-    console.log('[APP] Preferences loaded:', preferencesLoaded);
-    
-    // Don't process files until preferences are loaded
-    if (!preferencesLoaded || !loadedPreferencesRef.current) {
-      console.log('[APP] Preferences not loaded yet, skipping notification processing');
-      return;
-    }
     
     // Switch to file processor tab
     setActiveTab('file-processor');
     
-    // Add the file to detected files if not already there
-    setDetectedFiles(prev => {
-      const exists = prev.some(file => file.filePath === data.filePath);
-      if (!exists) {
-        // Convert OneDrive root folder to user-friendly display path
-        let displayFolder = loadedPreferencesRef.current?.oneDriveRootFolder || preferences.oneDriveRootFolder;
-        console.log('[APP] Raw OneDrive root folder for notification:', displayFolder);
-        
-        if (displayFolder === '/' || displayFolder === '' || !displayFolder) {
-          // If no OneDrive root folder is configured, try to infer it from the file path
-          const fileDriveRoot = data.filePath.substring(0, data.filePath.indexOf('\\', 3)); // E:\365\OneDrive - Broadlink
-          if (fileDriveRoot.includes('OneDrive')) {
-            displayFolder = 'OneDrive Root (Configure in Settings)';
-            console.log('[APP] No OneDrive root configured, inferred from file path:', fileDriveRoot);
-          } else {
-            displayFolder = 'OneDrive Root';
-          }
-        } else if (displayFolder.includes('\\')) {
-          // Convert Windows path to user-friendly format
-          displayFolder = displayFolder
-            .replace(/^E:\\365\\/, '') // Remove E:\365\ prefix
-            .replace(/\\/g, '/'); // Convert backslashes to forward slashes
-        }
-        
-        console.log('[APP] Display folder for notification file:', displayFolder);
-        
-        const newFile: FileProcessingState = {
-          fileName: data.fileName,
-          displayName: data.fileName, // Initialize with original filename
-          filePath: data.filePath,
-          timestamp: new Date(),
-          selectedFolder: displayFolder,
-          selectedTags: [],
-          isProcessing: false,
-          isProcessed: false
-        };
-        return [...prev, newFile];
-      }
-      return prev;
-    });
+    // The file was already queued by the main process
+    loadProcessingQueue();
   };
 
   const handleRemoveFile = async (index: number) => {
@@ -524,11 +700,13 @@ const App: React.FC = () => {
           console.log('[APP] File deleted from drop folder:', file.filePath);
         }
         
-        // Remove from the UI list
+        // Remove from the queue and the UI list
+        await window.electronAPI.removeFromQueue([file.id]);
         setDetectedFiles(prev => prev.filter((_, i) => i !== index));
       } catch (error) {
         console.error('[APP] Error deleting file:', error);
-        // Still remove from UI even if file deletion fails
+        // Still remove from the queue even if file deletion fails
+        await window.electronAPI.removeFromQueue([file.id]);
         setDetectedFiles(prev => prev.filter((_, i) => i !== index));
         alert(`File removed from processing list, but there was an error deleting the file from the drop folder: ${error}`);
       }
@@ -548,35 +726,37 @@ const App: React.FC = () => {
     setDetectedFiles(prev => prev.map((file, i) => 
       i === index ? { ...file, selectedFolder: newFolder } : file
     ));
+    window.electronAPI?.updateQueueItem(detectedFiles[index].id, { folderPath: newFolder });
   };
 
   const handleFileTagToggle = (index: number, tagId: number) => {
-    setDetectedFiles(prev => prev.map((file, i) => 
-      i === index ? {
-        ...file,
-        selectedTags: file.selectedTags.includes(tagId)
-          ? file.selectedTags.filter(id => id !== tagId)
-          : [...file.selectedTags, tagId]
-      } : file
+    const file = detectedFiles[index];
+    const selectedTags = file.selectedTags.includes(tagId)
+      ? file.selectedTags.filter(id => id !== tagId)
+      : [...file.selectedTags, tagId];
+
+    setDetectedFiles(prev => prev.map((f, i) => 
+      i === index ? { ...f, selectedTags } : f
     ));
+    window.electronAPI?.updateQueueItem(file.id, { tags: JSON.stringify(selectedTags) });
   };
 
   const handleFileNameChange = (index: number, newName: string) => {
-    setDetectedFiles(prev => prev.map((file, i) => {
-      if (i === index) {
-        // Extract the original file extension
-        const originalExtension = file.fileName.substring(file.fileName.lastIndexOf('.'));
-        
-        // If the new name doesn't have an extension, add the original one
-        let finalName = newName;
-        if (!newName.includes('.') && originalExtension) {
-          finalName = newName + originalExtension;
-        }
-        
-        return { ...file, displayName: finalName };
-      }
-      return file;
-    }));
+    const file = detectedFiles[index];
+
+    // Extract the original file extension
+    const originalExtension = file.fileName.substring(file.fileName.lastIndexOf('.'));
+    
+    // If the new name doesn't have an extension, add the original one
+    let finalName = newName;
+    if (!newName.includes('.') && originalExtension) {
+      finalName = newName + originalExtension;
+    }
+
+    setDetectedFiles(prev => prev.map((f, i) => 
+      i === index ? { ...f, displayName: finalName } : f
+    ));
+    window.electronAPI?.updateQueueItem(file.id, { displayName: finalName });
   };
 
   const handleApplyFolderToAll = (folderPath: string) => {
@@ -587,6 +767,9 @@ const App: React.FC = () => {
         ...file,
         selectedFolder: folderPath
       })));
+      detectedFiles
+        .filter(file => !file.isProcessed)
+        .forEach(file => window.electronAPI?.updateQueueItem(file.id, { folderPath }));
     }
   };
 
@@ -596,6 +779,7 @@ const App: React.FC = () => {
     
     if (unprocessedFiles.length === 0) {
       // If no unprocessed files, just clear the list without confirmation
+      await window.electronAPI?.removeFromQueue(detectedFiles.map(file => file.id));
       setDetectedFiles([]);
       console.log('[APP] No unprocessed files to delete, clearing list');
       return;
@@ -624,7 +808,8 @@ const App: React.FC = () => {
         const successful = results.filter(r => r.success).length;
         const failed = results.filter(r => !r.success).length;
 
-        // Clear the UI list regardless of deletion results
+        // Clear the queue and UI list regardless of deletion results
+        await window.electronAPI.removeFromQueue(detectedFiles.map(file => file.id));
         setDetectedFiles([]);
 
         if (failed > 0) {
@@ -634,7 +819,8 @@ const App: React.FC = () => {
         }
       } catch (error) {
         console.error('[APP] Error clearing unprocessed files:', error);
-        // Still clear the UI list even if there was an error
+        // Still clear the queue and UI list even if there was an error
+        await window.electronAPI?.removeFromQueue(detectedFiles.map(file => file.id));
         setDetectedFiles([]);
         alert(`Files removed from processing list, but there was an error deleting some unprocessed files from the drop folder: ${error}`);
       }
@@ -645,114 +831,22 @@ const App: React.FC = () => {
     const file = detectedFiles[index];
     if (!file || file.isProcessing || file.isProcessed) return;
 
-    // Update file state to processing
+    if (!currentUser) {
+      alert('Please authenticate with Microsoft to upload files to OneDrive.');
+      return;
+    }
+
+    // Update file state to queued; the main process upload worker takes it from here
     setDetectedFiles(prev => prev.map((f, i) => 
-      i === index ? { ...f, isProcessing: true, error: undefined } : f
+      i === index ? { ...f, status: 'queued', isProcessing: true, error: undefined } : f
     ));
 
     try {
-      console.log('[APP] Processing file:', file.fileName);
-      console.log('[APP] Selected tags:', file.selectedTags);
-      console.log('[APP] Selected folder:', file.selectedFolder);
-
-      // Tags are now optional - files can be processed without tags
-
-      if (!currentUser) {
-        throw new Error('Please authenticate with Microsoft to upload files to OneDrive.');
-      }
-
-      // Upload to OneDrive first using desktop app service
-      if (window.electronAPI) {
-        console.log('[APP] Uploading file to OneDrive...');
-        
-        // Convert display folder back to OneDrive format
-        let oneDriveFolder: string | undefined = file.selectedFolder;
-        if (oneDriveFolder === 'OneDrive Root') {
-          oneDriveFolder = undefined; // Let OneDrive service use default
-        } else if (oneDriveFolder && oneDriveFolder !== 'root') {
-          // Convert user-friendly path back to OneDrive format if needed
-          // The OneDrive service will handle the path conversion
-          oneDriveFolder = oneDriveFolder;
-        }
-        
-        const oneDriveResult = await window.electronAPI.uploadToOneDrive(
-          file.filePath,
-          file.displayName, // Use the user-editable display name
-          oneDriveFolder
-        );
-
-        console.log('[APP] OneDrive upload result:', JSON.stringify(oneDriveResult, null, 2));
-
-        // Create tag associations using the backend API (only if tags are selected)
-        let associationResult: any[] = [];
-        if (file.selectedTags.length > 0) {
-          const tagResult = await fetch(`${API_BASE_URL}/api/file-tags/associations`, {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-              'x-test-user-id': '1',
-              'x-test-user-name': currentUser?.name || 'Desktop App User',
-              'x-test-user-is-admin': 'true'
-            },
-            body: JSON.stringify({
-              associations: file.selectedTags.map(tagId => ({
-                file_id: oneDriveResult.id,
-                tag_id: tagId,
-                item_type: 'file',
-                drive_id: 'onedrive',
-                notes: `Uploaded via BrokerNet Desktop on ${new Date().toLocaleString()}`
-              }))
-            })
-          });
-
-          if (!tagResult.ok) {
-            throw new Error(`Failed to create tag associations: ${tagResult.statusText}`);
-          }
-
-          associationResult = await tagResult.json();
-          console.log('[APP] Tag associations created:', JSON.stringify(associationResult, null, 2));
-        } else {
-          console.log('[APP] No tags selected, skipping tag associations');
-        }
-        
-        // Combine results
-        const result = {
-          success: true,
-          file_id: oneDriveResult.id,
-          one_drive_id: oneDriveResult.id,
-          web_url: oneDriveResult.webUrl,
-          message: 'File uploaded and tagged successfully',
-          associations: associationResult
-        };
-        
-        console.log('[APP] Complete file processing result:', JSON.stringify(result, null, 2));
-        
-        // Delete the file from the drop folder after successful processing
-        try {
-          if (window.electronAPI) {
-            console.log('[APP] Deleting processed file from drop folder:', file.filePath);
-            const deleteSuccess = await window.electronAPI.deleteFile(file.filePath);
-            if (deleteSuccess) {
-              console.log('[APP] File successfully deleted from drop folder');
-            } else {
-              console.warn('[APP] Failed to delete file from drop folder');
-            }
-          }
-        } catch (deleteError) {
-          console.error('[APP] Error deleting file from drop folder:', deleteError);
-          // Don't fail the entire process if file deletion fails
-        }
-        
-        // Update file state to processed
-        setDetectedFiles(prev => prev.map((f, i) => 
-          i === index ? { ...f, isProcessing: false, isProcessed: true, result } : f
-        ));
-      }
+      console.log('[APP] Queueing file for upload:', file.fileName);
+      await window.electronAPI.enqueueUpload([file.id]);
     } catch (error) {
-      console.error('[APP] Error processing file:', error);
-      setDetectedFiles(prev => prev.map((f, i) => 
-        i === index ? { ...f, isProcessing: false, error: error instanceof Error ? error.message : String(error) } : f
-      ));
+      console.error('[APP] Error queueing file:', error);
+      loadProcessingQueue();
     }
   };
 
@@ -763,15 +857,12 @@ const App: React.FC = () => {
       return;
     }
 
-    for (let i = 0; i < filesToProcess.length; i++) {
-      const fileIndex = detectedFiles.findIndex(f => f.filePath === filesToProcess[i].filePath);
-      if (fileIndex !== -1) {
-        await handleProcessSingleFile(fileIndex);
-        // Small delay between files to avoid overwhelming the API
-        if (i < filesToProcess.length - 1) {
-          await new Promise(resolve => setTimeout(resolve, 1000));
-        }
-      }
+    try {
+      console.log('[APP] Queueing', filesToProcess.length, 'files for upload');
+      await window.electronAPI.enqueueUpload(filesToProcess.map(f => f.id));
+      loadProcessingQueue();
+    } catch (error) {
+      console.error('[APP] Error queueing files:', error);
     }
   };
 
@@ -779,26 +870,16 @@ const App: React.FC = () => {
     try {
       if (window.electronAPI) {
         // Open the OneDrive synced folder where the file would be located
-        // Convert the selected folder back to the actual OneDrive path
-        let oneDriveFolder = file.selectedFolder;
-        if (oneDriveFolder === 'OneDrive Root') {
-          // Use the user's configured OneDrive root folder
-          oneDriveFolder = preferences.oneDriveRootFolder;
+        const mappings = resolveAccountPathMappings(preferences, currentUser?.id);
+        let localFolderPath: string | null = file.selectedFolder;
+        if (!isLocalPath(file.selectedFolder)) {
+          const remoteFolder = file.selectedFolder.startsWith('OneDrive Root') ? '' : file.selectedFolder;
+          localFolderPath = remoteToLocal(remoteFolder, mappings);
         }
         
-        // Convert OneDrive path to local synced path
-        let localFolderPath = oneDriveFolder;
-        if (localFolderPath && localFolderPath !== '/' && localFolderPath !== 'OneDrive Root') {
-          // If it's a relative path, prepend with the OneDrive sync root
-          if (!localFolderPath.includes('\\') && !localFolderPath.startsWith('E:')) {
-            // Extract the OneDrive sync root from the file path
-            const fileDriveRoot = file.filePath.substring(0, file.filePath.indexOf('\\', 3)); // E:\365\OneDrive - Broadlink
-            localFolderPath = `${fileDriveRoot}\\${localFolderPath.replace(/\//g, '\\')}`;
-          }
-        } else {
-          // Default to the OneDrive root
-          const fileDriveRoot = file.filePath.substring(0, file.filePath.indexOf('\\', 3)); // E:\365\OneDrive - Broadlink
-          localFolderPath = fileDriveRoot;
+        if (!localFolderPath) {
+          alert('No path mapping covers this folder. Add one under Settings > Path Mappings.');
+          return;
         }
         
         console.log('[APP] Opening OneDrive synced folder:', localFolderPath);
@@ -867,6 +948,13 @@ const App: React.FC = () => {
     }
   }, [currentEnvironment.apiBaseUrl]);
 
+  // Keep asking for fresh tags while only the cached copy is available
+  useEffect(() => {
+    if (!tagCategoriesStatus?.refreshFailed) return;
+    const timer = setInterval(() => loadTagCategories(), TAG_RETRY_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [tagCategoriesStatus?.refreshFailed]);
+
   const handleInstallUpdate = useCallback(() => {
     if (window.electronAPI) {
       window.electronAPI.quitAndInstall();
@@ -893,6 +981,20 @@ const App: React.FC = () => {
           <span className="sidebar-item-icon">📁</span>
           <span className="sidebar-item-text">File Processor</span>
         </div>
+        <div 
+          className={`sidebar-item ${activeTab === 'queue' ? 'active' : ''}`}
+          onClick={() => handleTabChange('queue')}
+        >
+          <span className="sidebar-item-icon">⏳</span>
+          <span className="sidebar-item-text">Upload Queue</span>
+        </div>
+        <div 
+          className={`sidebar-item ${activeTab === 'history' ? 'active' : ''}`}
+          onClick={() => handleTabChange('history')}
+        >
+          <span className="sidebar-item-icon">📜</span>
+          <span className="sidebar-item-text">History</span>
+        </div>
         <div 
           className={`sidebar-item ${activeTab === 'settings' ? 'active' : ''}`}
           onClick={() => handleTabChange('settings')}
@@ -908,28 +1010,117 @@ const App: React.FC = () => {
             <h1 className="header-title">BrokerNet Desktop</h1>
             <p className="header-version">v1.0.0</p>
           </div>
-          <div className="header-actions">
+          <div className="header-actions" style={{ alignItems: 'center' }}>
+            {connectivity && (
+              <span
+                onClick={handleCheckConnectivity}
+                title={connectivity.online
+                  ? 'Connected to OneDrive and BrokerNet'
+                  : `Cannot reach ${[!connectivity.graphReachable && 'OneDrive', !connectivity.apiReachable && 'BrokerNet'].filter(Boolean).join(' or ')}. Uploads resume automatically when the connection returns. Click to check again.`}
+                style={{
+                  padding: '4px 10px',
+                  borderRadius: '12px',
+                  fontSize: '12px',
+                  cursor: 'pointer',
+                  backgroundColor: connectivity.online ? '#eafaf1' : '#fdf2f2',
+                  color: connectivity.online ? '#27ae60' : '#e74c3c',
+                  border: `1px solid ${connectivity.online ? '#27ae60' : '#e74c3c'}`
+                }}
+              >
+                {connectivity.online ? '🟢 Online' : '🔴 Offline'}
+              </span>
+            )}
             <button className="btn btn-secondary" onClick={handleOpenFolder}>
               📁 Open Folder
             </button>
           </div>
         </div>
+
+        <DatabaseHealthBanner />
+
+        {apiAuthRequired && (
+          <div style={{ margin: '0 0 15px 0', padding: '10px 15px', backgroundColor: '#fdf2f2', border: '1px solid #e74c3c', borderRadius: '6px', fontSize: '13px', color: '#a94442', display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '10px' }}>
+            <span>🔐 BrokerNet did not accept your sign-in. Sign in again to keep tagging files.</span>
+            <button
+              className="btn btn-primary"
+              onClick={handleAuthenticate}
+              disabled={isAuthenticating}
+              style={{ fontSize: '12px', padding: '5px 10px', flexShrink: 0 }}
+            >
+              {isAuthenticating ? 'Authenticating...' : 'Sign In Again'}
+            </button>
+          </div>
+        )}
+
+        {expiredAccounts.length > 0 && (
+          <div style={{ margin: '0 0 15px 0', padding: '10px 15px', backgroundColor: '#fdf2f2', border: '1px solid #e74c3c', borderRadius: '6px', fontSize: '13px', color: '#a94442', display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '10px' }}>
+            <span>
+              🔐 Your Microsoft sign-in for {expiredAccounts.map(account => account.email || account.name).join(', ')} has expired.
+              Uploads are paused until you sign in again, so do this before starting a batch.
+            </span>
+            <button
+              className="btn btn-primary"
+              onClick={handleAuthenticate}
+              disabled={isAuthenticating}
+              style={{ fontSize: '12px', padding: '5px 10px', flexShrink: 0 }}
+            >
+              {isAuthenticating ? 'Authenticating...' : 'Sign In Again'}
+            </button>
+          </div>
+        )}
+
+        {tagCategoriesStatus?.refreshFailed && (
+          <div style={{ margin: '0 0 15px 0', padding: '10px 15px', backgroundColor: '#fff8e6', border: '1px solid #faad14', borderRadius: '6px', fontSize: '13px', color: '#8a6d3b' }}>
+            📴 Cannot reach the server.{' '}
+            {tagCategoriesStatus.fetchedAt
+              ? `Showing tags saved ${new Date(tagCategoriesStatus.fetchedAt).toLocaleString()}; you can keep tagging files.`
+              : 'Tags will appear once the server can be reached.'}
+          </div>
+        )}
+
+        {graphThrottle && (
+          <div style={{ margin: '0 0 15px 0', padding: '10px 15px', backgroundColor: '#fff8e6', border: '1px solid #faad14', borderRadius: '6px', fontSize: '13px', color: '#8a6d3b' }}>
+            ⚠️ Microsoft is limiting requests from this app. Uploads will continue automatically
+            {graphThrottle.resumeAt ? ` after ${new Date(graphThrottle.resumeAt).toLocaleTimeString()}` : ''}.
+          </div>
+        )}
         
         <div className="content-card">
           <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '20px' }}>
             <h2 className="content-title" style={{ margin: 0 }}>
               {activeTab === 'file-processor' && 'File Processor'}
+              {activeTab === 'queue' && 'Upload Queue'}
+              {activeTab === 'history' && 'History'}
               {activeTab === 'settings' && 'Settings'}
             </h2>
             <div style={{ display: 'flex', gap: '10px', alignItems: 'center' }}>
               {currentUser ? (
                 <div style={{ display: 'flex', alignItems: 'center', gap: '10px' }}>
-                  <span style={{ fontSize: '14px', color: '#666' }}>
-                    👤 {currentUser.name}
-                  </span>
+                  <span style={{ fontSize: '14px', color: '#666' }}>👤</span>
+                  <select
+                    value={currentUser.id}
+                    onChange={(e) => {
+                      if (e.target.value === ADD_ACCOUNT_OPTION) {
+                        handleAuthenticate();
+                      } else {
+                        handleSwitchAccount(e.target.value);
+                      }
+                    }}
+                    disabled={isAuthenticating}
+                    title="Switch Microsoft account"
+                    style={{ fontSize: '14px', color: '#666', padding: '3px 6px', border: '1px solid #d9d9d9', borderRadius: '4px', backgroundColor: '#fff', maxWidth: '260px' }}
+                  >
+                    {(accounts.some(account => account.id === currentUser.id) ? accounts : [{ ...currentUser, isActive: true, needsSignIn: false, hasSharePointAccess: false }, ...accounts]).map(account => (
+                      <option key={account.id} value={account.id}>
+                        {account.name}{accounts.length > 1 && account.email ? ` (${account.email})` : ''}{account.needsSignIn ? ' ⚠️ sign-in required' : ''}
+                      </option>
+                    ))}
+                    <option value={ADD_ACCOUNT_OPTION}>➕ Add account...</option>
+                  </select>
                   <button 
                     className="btn btn-secondary" 
                     onClick={handleSignOut}
+                    title={`Sign out ${currentUser.email || currentUser.name}`}
                     style={{ padding: '5px 10px', fontSize: '12px' }}
                   >
                     Sign Out
@@ -1029,7 +1220,7 @@ const App: React.FC = () => {
                   
                   <div style={{ display: 'flex', flexDirection: 'column', gap: '20px' }}>
                     {detectedFiles.map((file, index) => (
-                      <div key={index} style={{ 
+                      <div key={file.id} style={{ 
                         border: file.isProcessed ? '2px solid #27ae60' : file.error ? '2px solid #e74c3c' : '1px solid #e1e8ed', 
                         borderRadius: '8px', 
                         padding: '20px',
@@ -1042,7 +1233,7 @@ const App: React.FC = () => {
                               <h4 style={{ margin: 0, color: '#2c3e50' }}>{file.fileName}</h4>
                               {file.isProcessed && <span style={{ color: '#27ae60', fontSize: '14px' }}>✅ Processed</span>}
                               {file.error && <span style={{ color: '#e74c3c', fontSize: '14px' }}>❌ Error</span>}
-                              {file.isProcessing && <span style={{ color: '#f39c12', fontSize: '14px' }}>⏳ Processing...</span>}
+                              {file.isProcessing && <span style={{ color: '#f39c12', fontSize: '14px' }}>{getProcessingLabel(file)}</span>}
                             </div>
                             <p style={{ margin: '0 0 5px 0', fontSize: '12px', color: '#7f8c8d' }}>
                               {file.filePath}
@@ -1050,6 +1241,20 @@ const App: React.FC = () => {
                             <p style={{ margin: 0, fontSize: '11px', color: '#95a5a6' }}>
                               Detected: {file.timestamp.toLocaleString()}
                             </p>
+                            {file.status === 'processing' && file.uploadProgress && (
+                              <div style={{ marginTop: '8px' }}>
+                                <div style={{ height: '6px', backgroundColor: '#e1e8ed', borderRadius: '3px', overflow: 'hidden' }}>
+                                  <div style={{ 
+                                    width: `${Math.round((file.uploadProgress.bytesUploaded / file.uploadProgress.totalBytes) * 100)}%`, 
+                                    height: '100%', 
+                                    backgroundColor: '#3498db' 
+                                  }}></div>
+                                </div>
+                                <p style={{ margin: '3px 0 0 0', fontSize: '11px', color: '#7f8c8d' }}>
+                                  {formatFileSize(file.uploadProgress.bytesUploaded, 1)} of {formatFileSize(file.uploadProgress.totalBytes, 1)} uploaded
+                                </p>
+                              </div>
+                            )}
                           </div>
                           {!file.isProcessed && (
                             <button 
@@ -1140,16 +1345,7 @@ const App: React.FC = () => {
                                         const selectedPath = await window.electronAPI.selectOneDriveFolder(defaultPath);
                                         if (selectedPath) {
                                           // Convert the selected path to user-friendly format
-                                          let displayPath = selectedPath;
-                                          if (displayPath === '/' || displayPath === '') {
-                                            displayPath = 'OneDrive Root';
-                                          } else if (displayPath.includes('\\')) {
-                                            // Convert Windows path to user-friendly format
-                                            displayPath = displayPath
-                                              .replace(/^E:\\365\\/, '') // Remove E:\365\ prefix
-                                              .replace(/\\/g, '/'); // Convert backslashes to forward slashes
-                                          }
-                                          handleFileFolderChange(index, displayPath);
+                                          handleFileFolderChange(index, toDisplayFolder(selectedPath, resolveAccountPathMappings(preferences, currentUser?.id)));
                                         }
                                       }
                                     } catch (error) {
@@ -1248,7 +1444,7 @@ const App: React.FC = () => {
                                   ))
                                 ) : (
                                   <div style={{ textAlign: 'center', color: '#7f8c8d', fontSize: '12px', padding: '20px' }}>
-                                    Loading tags...
+                                    {tagCategoriesStatus?.refreshFailed ? 'Tags unavailable while offline' : 'Loading tags...'}
                                   </div>
                                 )}
                               </div>
@@ -1268,7 +1464,7 @@ const App: React.FC = () => {
                                 }}
                                 title={!currentUser ? 'Please sign in to process files' : ''}
                               >
-                                {file.isProcessing ? '⏳ Processing...' : '🚀 Process File'}
+                                {file.isProcessing ? getProcessingLabel(file) : '🚀 Process File'}
                               </button>
                             </div>
                           </div>
@@ -1353,12 +1549,52 @@ const App: React.FC = () => {
           )}
           
           
+          {activeTab === 'queue' && (
+            <ProcessingQueue maxAttempts={preferences.maxUploadAttempts || DEFAULT_MAX_UPLOAD_ATTEMPTS} accounts={accounts} />
+          )}
+
+          {activeTab === 'history' && (
+            <FileHistory tagCategories={tagCategories} />
+          )}
+
           {activeTab === 'settings' && (
             <div>
               <EnvironmentSwitcher 
                 onEnvironmentChange={handleEnvironmentChange} 
                 currentEnvironment={currentEnvironment}
               />
+
+              <div className="form-group">
+                <label className="form-label">Sign-in Method</label>
+                <select
+                  className="form-input"
+                  value={preferences.signInMethod || 'auto'}
+                  onChange={(e) => savePreferences({ ...preferences, signInMethod: e.target.value as UserPreferences['signInMethod'] })}
+                  style={{ width: 'auto' }}
+                >
+                  <option value="auto">Automatic (browser, then device code)</option>
+                  <option value="browser">Browser only</option>
+                  <option value="device-code">Device code only</option>
+                </select>
+                <p style={{ color: '#666', fontSize: '12px', marginTop: '5px' }}>
+                  Browser sign-in works where conditional access blocks device codes. Use device code if the browser cannot reach this computer.
+                </p>
+              </div>
+
+              <div className="form-group">
+                <label className="form-label">BrokerNet API Scope</label>
+                <input
+                  type="text"
+                  className="form-input"
+                  value={preferences.apiScope || ''}
+                  onChange={(e) => savePreferences({ ...preferences, apiScope: e.target.value.trim() || undefined })}
+                  placeholder="api://<app client ID>/.default"
+                />
+                <p style={{ color: '#666', fontSize: '12px', marginTop: '5px' }}>
+                  The scope requested when signing in to the BrokerNet API. Leave empty to use this app's registration.
+                  Test users are only sent to the Local Development environment.
+                </p>
+              </div>
               
               <div className="form-group">
                 <label className="form-label">Drop Folder Path</label>
@@ -1418,6 +1654,32 @@ const App: React.FC = () => {
                 )}
               </div>
               
+              {currentUser && (
+                <AccountSettingsPanel
+                  account={currentUser}
+                  settings={preferences.accountSettings?.[currentUser.id] || {}}
+                  drives={driveTargets}
+                  hasSharePointAccess={!!accounts.find(account => account.id === currentUser.id)?.hasSharePointAccess}
+                  onEnableSharePoint={handleEnableSharePoint}
+                  sharedMappings={resolvePathMappings(preferences)}
+                  onChange={handleAccountSettingsChange}
+                />
+              )}
+
+              <PathMappingSettings
+                mappings={resolvePathMappings(preferences)}
+                onChange={(pathMappings) => savePreferences({ ...preferences, pathMappings })}
+                description="Pair each local OneDrive sync folder with the drive and folder it syncs. Leave the drive ID empty to use the account's upload drive. Used by every account without its own mappings."
+              />
+
+              <RoutingRulesEditor
+                rules={preferences.routingRules || []}
+                tagCategories={tagCategories}
+                dropFolderPath={preferences.dropFolderPath}
+                drives={driveTargets || []}
+                onChange={(routingRules) => savePreferences({ ...preferences, routingRules })}
+              />
+              
               <div className="form-group">
                 <label style={{ display: 'flex', alignItems: 'center', gap: '10px' }}>
                   <input 
@@ -1429,9 +1691,49 @@ const App: React.FC = () => {
                       savePreferences(newPrefs);
                     }}
                   />
-                  Auto-process files when detected
+                  Auto-upload files that match an auto-upload routing rule
+                </label>
+              </div>
+
+              <div className="form-group">
+                <label className="form-label">Upload Attempts</label>
+                <input 
+                  type="number" 
+                  className="form-input" 
+                  min="1"
+                  max="20"
+                  value={preferences.maxUploadAttempts || DEFAULT_MAX_UPLOAD_ATTEMPTS}
+                  onChange={(e) => {
+                    const maxUploadAttempts = parseInt(e.target.value, 10);
+                    if (maxUploadAttempts >= 1) {
+                      savePreferences({ ...preferences, maxUploadAttempts });
+                    }
+                  }}
+                  style={{ width: '100px' }}
+                />
+                <p style={{ color: '#666', fontSize: '12px', marginTop: '5px' }}>
+                  Failed uploads are retried with an increasing delay until this many attempts have been made.
+                </p>
+              </div>
+
+              <div className="form-group">
+                <label style={{ display: 'flex', alignItems: 'center', gap: '10px' }}>
+                  <input
+                    type="checkbox"
+                    checked={preferences.rollbackOnTagFailure === true}
+                    onChange={(e) => savePreferences({ ...preferences, rollbackOnTagFailure: e.target.checked })}
+                  />
+                  Remove uploaded files from OneDrive if their tags cannot be saved
                 </label>
+                <p style={{ color: '#666', fontSize: '12px', marginTop: '5px' }}>
+                  Otherwise the file stays in OneDrive untagged and retrying only adds the tags.
+                </p>
               </div>
+
+              <BackupSettings
+                retentionCount={preferences.backupRetentionCount || DEFAULT_BACKUP_RETENTION}
+                onRetentionCountChange={(backupRetentionCount) => savePreferences({ ...preferences, backupRetentionCount })}
+              />
               
               <div style={{ marginTop: '30px', padding: '20px', backgroundColor: '#f8f9fa', borderRadius: '6px' }}>
                 <h4 style={{ margin: '0 0 10px 0', color: '#2c3e50' }}>Status</h4>
@@ -1442,7 +1744,7 @@ const App: React.FC = () => {
                   <strong>Drop Folder:</strong> {preferences.dropFolderPath || 'Not configured'}
                 </p>
                 <p style={{ margin: '5px 0', fontSize: '14px' }}>
-                  <strong>Auto Process:</strong> {preferences.autoProcess ? 'Enabled' : 'Disabled'}
+                  <strong>Auto Upload:</strong> {preferences.autoProcess ? 'Enabled' : 'Disabled'}
                 </p>
               </div>
             </div>
@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { AccountSettings, PathMapping } from '../../config/pathMapping';
+import PathMappingSettings from './PathMappingSettings';
+import DriveSelect, { DriveTarget } from './DriveSelect';
+
+interface AccountSettingsPanelProps {
+  account: { id: string; name: string; email: string };
+  settings: AccountSettings;
+  /** Drives the account can upload to; null when they could not be loaded */
+  drives: DriveTarget[] | null;
+  /** Whether SharePoint libraries are included in drives */
+  hasSharePointAccess: boolean;
+  onEnableSharePoint: () => Promise<void>;
+  /** Mappings the account uses until it has its own */
+  sharedMappings: PathMapping[];
+  onChange: (settings: AccountSettings) => void;
+}
+
+const AccountSettingsPanel: React.FC<AccountSettingsPanelProps> = ({ account, settings, drives, hasSharePointAccess, onEnableSharePoint, sharedMappings, onChange }) => {
+  const hasOwnMappings = !!settings.pathMappings;
+  const [enablingSharePoint, setEnablingSharePoint] = useState(false);
+
+  const handleEnableSharePoint = async () => {
+    setEnablingSharePoint(true);
+    try {
+      await onEnableSharePoint();
+    } finally {
+      setEnablingSharePoint(false);
+    }
+  };
+
+  return (
+    <div style={{ marginBottom: '20px', padding: '15px', border: '1px solid #d9d9d9', borderRadius: '6px', backgroundColor: '#fafafa' }}>
+      <h3 style={{ margin: '0 0 5px 0', fontSize: '16px', color: '#262626' }}>
+        Account: {account.name}{account.email ? ` (${account.email})` : ''}
+      </h3>
+      <p style={{ margin: '0 0 15px 0', fontSize: '12px', color: '#999' }}>
+        Remembered for this account. Switch accounts from the header to edit another account's settings.
+      </p>
+
+      <div style={{ marginBottom: '15px' }}>
+        <label style={{ display: 'block', marginBottom: '4px', fontSize: '12px', fontWeight: '500' }}>Default upload drive</label>
+        <DriveSelect
+          drives={drives || []}
+          value={settings.driveId}
+          onChange={(driveId) => onChange({ ...settings, driveId })}
+          defaultLabel="My OneDrive"
+          style={{ width: '100%', maxWidth: '400px', padding: '6px 10px', border: '1px solid #d9d9d9', borderRadius: '4px', fontSize: '13px', backgroundColor: '#fff' }}
+        />
+        <div style={{ fontSize: '12px', color: drives ? '#999' : '#e74c3c', marginTop: '4px' }}>
+          {!drives
+            ? 'Could not load this account\'s drives.'
+            : hasSharePointAccess
+              ? 'Lists your OneDrive and the document libraries of SharePoint sites you follow.'
+              : 'Lists your OneDrive. SharePoint document libraries need your permission first.'}
+        </div>
+        {drives && !hasSharePointAccess && (
+          <button
+            className="btn btn-secondary"
+            onClick={handleEnableSharePoint}
+            disabled={enablingSharePoint}
+            style={{ marginTop: '8px', fontSize: '12px', padding: '6px 12px' }}
+          >
+            {enablingSharePoint ? 'Waiting for the browser...' : 'Add SharePoint libraries'}
+          </button>
+        )}
+      </div>
+
+      <label style={{ display: 'flex', alignItems: 'center', gap: '10px', fontSize: '13px', marginBottom: hasOwnMappings ? '15px' : 0 }}>
+        <input
+          type="checkbox"
+          checked={hasOwnMappings}
+          onChange={(e) => onChange({ ...settings, pathMappings: e.target.checked ? sharedMappings : undefined })}
+        />
+        Use separate path mappings for this account
+      </label>
+
+      {hasOwnMappings && (
+        <PathMappingSettings
+          title="Path Mappings for this Account"
+          description="Used instead of the shared path mappings when this account uploads."
+          mappings={settings.pathMappings || []}
+          onChange={(pathMappings) => onChange({ ...settings, pathMappings })}
+        />
+      )}
+    </div>
+  );
+};
+
+export default AccountSettingsPanel;
@@ -0,0 +1,133 @@
+import React, { useState, useEffect } from 'react';
+import { formatFileSize } from '../utils/format';
+
+interface DatabaseBackup {
+  fileName: string;
+  createdAt: string;
+  sizeBytes: number;
+}
+
+interface BackupSettingsProps {
+  retentionCount: number;
+  onRetentionCountChange: (retentionCount: number) => void;
+}
+
+const BackupSettings: React.FC<BackupSettingsProps> = ({ retentionCount, onRetentionCountChange }) => {
+  const [backups, setBackups] = useState<DatabaseBackup[]>([]);
+  const [isBackingUp, setIsBackingUp] = useState(false);
+  const [restoringFileName, setRestoringFileName] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadBackups();
+  }, []);
+
+  const loadBackups = async () => {
+    try {
+      setBackups(await window.electronAPI.listDatabaseBackups());
+    } catch (error) {
+      console.error('[BACKUPS] Error listing backups:', error);
+    }
+  };
+
+  const handleBackUpNow = async () => {
+    try {
+      setIsBackingUp(true);
+      const result = await window.electronAPI.createDatabaseBackup();
+      if (!result.success) {
+        alert('Backup failed: ' + (result.error || 'Unknown error'));
+      }
+      await loadBackups();
+    } catch (error) {
+      console.error('[BACKUPS] Error creating backup:', error);
+      alert('Backup failed: ' + error);
+    } finally {
+      setIsBackingUp(false);
+    }
+  };
+
+  const handleRestore = async (backup: DatabaseBackup) => {
+    if (!confirm(
+      `Restore the database from ${formatDate(backup.createdAt)}? ` +
+      'Queue and history changes made since then will be lost. The current database is kept alongside the backups.'
+    )) {
+      return;
+    }
+
+    try {
+      setRestoringFileName(backup.fileName);
+      const result = await window.electronAPI.restoreDatabaseBackup(backup.fileName);
+      alert(result.success ? result.message : 'Restore failed: ' + result.message);
+      await loadBackups();
+    } catch (error) {
+      console.error('[BACKUPS] Error restoring backup:', error);
+      alert('Restore failed: ' + error);
+    } finally {
+      setRestoringFileName(null);
+    }
+  };
+
+  const formatDate = (value: string): string => new Date(value).toLocaleString();
+
+  return (
+    <div style={{ marginBottom: '20px', padding: '15px', border: '1px solid #d9d9d9', borderRadius: '6px', backgroundColor: '#fafafa' }}>
+      <h3 style={{ margin: '0 0 5px 0', fontSize: '16px', color: '#262626' }}>Database Backups</h3>
+      <p style={{ margin: '0 0 15px 0', fontSize: '12px', color: '#999' }}>
+        The upload queue and history are backed up every few hours while the app is running.
+      </p>
+
+      <div style={{ display: 'flex', gap: '10px', alignItems: 'flex-end', marginBottom: '15px' }}>
+        <div>
+          <label style={{ display: 'block', marginBottom: '4px', fontSize: '12px', fontWeight: '500' }}>Backups to keep</label>
+          <input
+            type="number"
+            className="form-input"
+            min="1"
+            max="100"
+            value={retentionCount}
+            onChange={(e) => {
+              const value = parseInt(e.target.value, 10);
+              if (value >= 1) {
+                onRetentionCountChange(value);
+              }
+            }}
+            style={{ width: '100px' }}
+          />
+        </div>
+        <button
+          className="btn btn-primary"
+          onClick={handleBackUpNow}
+          disabled={isBackingUp || !!restoringFileName}
+          style={{ fontSize: '12px', padding: '6px 12px' }}
+        >
+          {isBackingUp ? '⏳ Backing up...' : '💾 Back Up Now'}
+        </button>
+      </div>
+
+      {backups.length === 0 ? (
+        <div style={{ fontSize: '13px', color: '#666' }}>No backups yet.</div>
+      ) : (
+        backups.map(backup => (
+          <div
+            key={backup.fileName}
+            style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', padding: '6px 0', borderTop: '1px solid #eee', fontSize: '13px' }}
+          >
+            <span>
+              {formatDate(backup.createdAt)}
+              <span style={{ color: '#999', marginLeft: '8px' }}>{formatFileSize(backup.sizeBytes)}</span>
+            </span>
+            <button
+              className="btn btn-secondary"
+              onClick={() => handleRestore(backup)}
+              disabled={isBackingUp || !!restoringFileName}
+              style={{ fontSize: '12px', padding: '4px 10px' }}
+            >
+              {restoringFileName === backup.fileName ? '⏳ Restoring...' : '⏪ Restore'}
+            </button>
+          </div>
+        ))
+      )}
+    </div>
+  );
+};
+
+export default BackupSettings;
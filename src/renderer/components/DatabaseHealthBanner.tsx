@@ -0,0 +1,120 @@
+import React, { useState, useEffect } from 'react';
+
+interface DatabaseHealth {
+  status: 'ok' | 'degraded' | 'repairing';
+  error?: string;
+  integrityErrors?: string[];
+  canRestoreBackup: boolean;
+}
+
+type RepairAction = 'integrity-check' | 'restore-backup' | 'recreate';
+
+const DatabaseHealthBanner: React.FC = () => {
+  const [health, setHealth] = useState<DatabaseHealth | null>(null);
+  const [lastResult, setLastResult] = useState<string | null>(null);
+  const [showDetails, setShowDetails] = useState(false);
+
+  useEffect(() => {
+    if (!window.electronAPI) return;
+
+    window.electronAPI.getDatabaseHealth()
+      .then(setHealth)
+      .catch(error => console.error('[DBHEALTH] Error getting database health:', error));
+    window.electronAPI.onDatabaseHealthChanged(setHealth);
+  }, []);
+
+  const handleRepair = async (action: RepairAction) => {
+    if (action === 'recreate' && !confirm(
+      'Create a new, empty database? Whatever can still be read is saved to a JSON file first, ' +
+      'and the damaged file is kept alongside it.'
+    )) {
+      return;
+    }
+    if (action === 'restore-backup' && !confirm('Replace the database with the most recent backup? Changes since that backup will be lost.')) {
+      return;
+    }
+
+    try {
+      const result = await window.electronAPI.repairDatabase(action);
+      if (result.success) {
+        // The banner disappears once the database is healthy, so confirm in a dialog
+        alert(result.message);
+        setLastResult(null);
+      } else {
+        setLastResult(result.message);
+      }
+    } catch (error) {
+      console.error('[DBHEALTH] Error repairing database:', error);
+      setLastResult('Repair failed: ' + error);
+    }
+  };
+
+  if (!health || health.status === 'ok') {
+    return null;
+  }
+
+  const isRepairing = health.status === 'repairing';
+
+  return (
+    <div style={{ margin: '0 0 15px 0', padding: '12px 15px', backgroundColor: '#fdf2f2', border: '1px solid #e74c3c', borderRadius: '6px', fontSize: '13px', color: '#a94442' }}>
+      <div style={{ fontWeight: 'bold', marginBottom: '4px' }}>
+        {isRepairing ? '🔧 Repairing local database...' : '⚠️ Local database unavailable'}
+      </div>
+      <div style={{ marginBottom: '10px' }}>
+        New files cannot be queued and uploads are paused until the database is working again.
+        {health.error && (
+          <>
+            {' '}
+            <span style={{ cursor: 'pointer', textDecoration: 'underline' }} onClick={() => setShowDetails(!showDetails)}>
+              {showDetails ? 'Hide details' : 'Details'}
+            </span>
+          </>
+        )}
+      </div>
+
+      {showDetails && (
+        <div style={{ marginBottom: '10px', fontFamily: 'monospace', fontSize: '11px', wordBreak: 'break-word' }}>
+          <div>{health.error}</div>
+          {health.integrityErrors?.map((problem, index) => (
+            <div key={index}>• {problem}</div>
+          ))}
+        </div>
+      )}
+
+      <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap' }}>
+        <button
+          className="btn btn-secondary"
+          onClick={() => handleRepair('integrity-check')}
+          disabled={isRepairing}
+          style={{ fontSize: '12px', padding: '5px 10px' }}
+        >
+          🔍 Check Again
+        </button>
+        {health.canRestoreBackup && (
+          <button
+            className="btn btn-secondary"
+            onClick={() => handleRepair('restore-backup')}
+            disabled={isRepairing}
+            style={{ fontSize: '12px', padding: '5px 10px' }}
+          >
+            ⏪ Restore Last Backup
+          </button>
+        )}
+        <button
+          className="btn btn-danger"
+          onClick={() => handleRepair('recreate')}
+          disabled={isRepairing}
+          style={{ fontSize: '12px', padding: '5px 10px' }}
+        >
+          ♻️ Recreate Database
+        </button>
+      </div>
+
+      {lastResult && (
+        <div style={{ marginTop: '8px', fontSize: '12px' }}>{lastResult}</div>
+      )}
+    </div>
+  );
+};
+
+export default DatabaseHealthBanner;
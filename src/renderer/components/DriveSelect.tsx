@@ -0,0 +1,76 @@
+import React from 'react';
+
+export interface DriveTarget {
+  id: string;
+  name: string;
+  driveType?: string;
+  source: 'onedrive' | 'sharepoint';
+  siteId?: string;
+  siteName?: string;
+  webUrl?: string;
+}
+
+interface DriveSelectProps {
+  drives: DriveTarget[];
+  value?: string;
+  onChange: (driveId: string | undefined) => void;
+  /** Label of the option that leaves the drive unset */
+  defaultLabel: string;
+  style?: React.CSSProperties;
+}
+
+/**
+ * Name of a drive as shown to the user, e.g. "Loans Team › Documents"
+ */
+export const formatDriveName = (drive: DriveTarget): string =>
+  drive.source === 'sharepoint' && drive.siteName ? `${drive.siteName} › ${drive.name}` : drive.name;
+
+// SharePoint libraries grouped by site, in the order the sites were listed
+const groupBySite = (drives: DriveTarget[]): { siteName: string; drives: DriveTarget[] }[] => {
+  const groups: { siteName: string; drives: DriveTarget[] }[] = [];
+  for (const drive of drives) {
+    const siteName = drive.siteName || 'SharePoint';
+    const group = groups.find(candidate => candidate.siteName === siteName);
+    if (group) {
+      group.drives.push(drive);
+    } else {
+      groups.push({ siteName, drives: [drive] });
+    }
+  }
+  return groups;
+};
+
+const DriveSelect: React.FC<DriveSelectProps> = ({ drives, value, onChange, defaultLabel, style }) => {
+  const oneDrives = drives.filter(drive => drive.source === 'onedrive');
+  const siteGroups = groupBySite(drives.filter(drive => drive.source === 'sharepoint'));
+
+  return (
+    <select
+      value={value || ''}
+      onChange={(e) => onChange(e.target.value || undefined)}
+      style={style}
+    >
+      <option value="">{defaultLabel}</option>
+      {oneDrives.length > 0 && (
+        <optgroup label="OneDrive">
+          {oneDrives.map(drive => (
+            <option key={drive.id} value={drive.id}>{drive.name}</option>
+          ))}
+        </optgroup>
+      )}
+      {siteGroups.map(group => (
+        <optgroup key={group.siteName} label={`SharePoint: ${group.siteName}`}>
+          {group.drives.map(drive => (
+            <option key={drive.id} value={drive.id}>{drive.name}</option>
+          ))}
+        </optgroup>
+      ))}
+      {value && !drives.some(drive => drive.id === value) && (
+        // Saved drive that is not listed, e.g. a site no longer followed or another account's drive
+        <option value={value}>Other drive ({value})</option>
+      )}
+    </select>
+  );
+};
+
+export default DriveSelect;
@@ -45,8 +45,8 @@ const EnvironmentSwitcher: React.FC<EnvironmentSwitcherProps> = ({ onEnvironment
     setConnectionStatus('unknown');
     
     try {
-      const response = await fetch(`${config.apiBaseUrl}/health`);
-      setConnectionStatus(response.ok ? 'connected' : 'disconnected');
+      const healthy = await window.electronAPI.checkApiHealth(config.apiBaseUrl);
+      setConnectionStatus(healthy ? 'connected' : 'disconnected');
     } catch (error) {
       console.error('Connection test failed:', error);
       setConnectionStatus('disconnected');
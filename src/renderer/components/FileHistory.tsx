@@ -0,0 +1,286 @@
+import React, { useState, useEffect } from 'react';
+import { parseDbTimestamp, formatFileSize } from '../utils/format';
+
+interface FileHistoryItem {
+  id: number;
+  fileName: string;
+  displayName?: string;
+  filePath: string;
+  fileSize: number;
+  tags: string;
+  folderPath?: string;
+  notes?: string;
+  oneDriveItemId?: string;
+  webUrl?: string;
+  uploadedBy?: string;
+  processedAt: string;
+}
+
+interface FileHistoryProps {
+  tagCategories: any[];
+}
+
+const PAGE_SIZE = 50;
+const SEARCH_DELAY_MS = 300;
+
+const inputStyle: React.CSSProperties = {
+  padding: '6px 10px',
+  border: '1px solid #d9d9d9',
+  borderRadius: '4px',
+  fontSize: '13px',
+  backgroundColor: '#fff'
+};
+
+export const FileHistory: React.FC<FileHistoryProps> = ({ tagCategories }) => {
+  const [items, setItems] = useState<FileHistoryItem[]>([]);
+  const [folders, setFolders] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [hasMore, setHasMore] = useState(false);
+  const [search, setSearch] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [tagId, setTagId] = useState('');
+  const [folderPath, setFolderPath] = useState('');
+  const [refreshCount, setRefreshCount] = useState(0);
+  const [exportFormat, setExportFormat] = useState<'csv' | 'json'>('csv');
+  const [isExporting, setIsExporting] = useState(false);
+
+  const allTags = tagCategories.flatMap(category => category.tags || []);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(search), SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  useEffect(() => {
+    loadHistory(false);
+    loadFolders();
+  }, [debouncedSearch, fromDate, toDate, tagId, folderPath, refreshCount]);
+
+  useEffect(() => {
+    // Uploads finishing change the queue, so reload with the current filters
+    const unsubscribe = window.electronAPI.onQueueUpdated(() => setRefreshCount(count => count + 1));
+    return () => unsubscribe();
+  }, []);
+
+  const buildFilter = () => ({
+    search: debouncedSearch || undefined,
+    // Date inputs are local days; the database stores UTC
+    fromDate: fromDate ? new Date(`${fromDate}T00:00:00`).toISOString() : undefined,
+    toDate: toDate ? new Date(new Date(`${toDate}T00:00:00`).getTime() + 24 * 60 * 60 * 1000).toISOString() : undefined,
+    tagIds: tagId ? [parseInt(tagId, 10)] : undefined,
+    folderPath: folderPath || undefined
+  });
+
+  const loadHistory = async (append: boolean) => {
+    try {
+      setIsLoading(true);
+      const offset = append ? items.length : 0;
+      const rows: FileHistoryItem[] = await window.electronAPI.getFileHistory({ ...buildFilter(), limit: PAGE_SIZE + 1, offset });
+      setHasMore(rows.length > PAGE_SIZE);
+      const page = rows.slice(0, PAGE_SIZE);
+      setItems(prev => append ? [...prev, ...page] : page);
+    } catch (error) {
+      console.error('[FILEHISTORY] Error loading file history:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadFolders = async () => {
+    try {
+      setFolders(await window.electronAPI.getFileHistoryFolders());
+    } catch (error) {
+      console.error('[FILEHISTORY] Error loading folders:', error);
+    }
+  };
+
+  const handleClearFilters = () => {
+    setSearch('');
+    setDebouncedSearch('');
+    setFromDate('');
+    setToDate('');
+    setTagId('');
+    setFolderPath('');
+  };
+
+  const handleExport = async () => {
+    try {
+      setIsExporting(true);
+      const result = await window.electronAPI.exportFileHistory(buildFilter(), exportFormat);
+      if (result.success) {
+        alert(`Exported ${result.count} file(s) to ${result.filePath}`);
+      } else if (!result.canceled) {
+        alert('Export failed: ' + (result.error || 'Unknown error'));
+      }
+    } catch (error) {
+      console.error('[FILEHISTORY] Error exporting file history:', error);
+      alert('Export failed: ' + error);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleOpenInOneDrive = async (item: FileHistoryItem) => {
+    if (!item.webUrl) return;
+    try {
+      await window.electronAPI.openExternal(item.webUrl);
+    } catch (error) {
+      console.error('[FILEHISTORY] Error opening file in OneDrive:', error);
+    }
+  };
+
+  const parseTags = (tags: string): number[] => {
+    try {
+      const parsed = JSON.parse(tags || '[]');
+      return Array.isArray(parsed) ? parsed : [];
+    } catch {
+      return [];
+    }
+  };
+
+  const getTagName = (id: number): string => {
+    return allTags.find((tag: any) => tag.id === id)?.name || `#${id}`;
+  };
+
+  const formatDate = (value: string): string => {
+    return parseDbTimestamp(value).toLocaleString();
+  };
+
+  const hasFilters = !!(search || fromDate || toDate || tagId || folderPath);
+
+  return (
+    <div className="file-history">
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '10px', alignItems: 'flex-end', marginBottom: '15px' }}>
+        <div style={{ flex: '2 1 200px' }}>
+          <label style={{ display: 'block', marginBottom: '4px', fontSize: '12px', fontWeight: 500 }}>Search</label>
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="File name, folder, notes or uploader"
+            style={{ ...inputStyle, width: '100%' }}
+          />
+        </div>
+        <div>
+          <label style={{ display: 'block', marginBottom: '4px', fontSize: '12px', fontWeight: 500 }}>From</label>
+          <input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} style={inputStyle} />
+        </div>
+        <div>
+          <label style={{ display: 'block', marginBottom: '4px', fontSize: '12px', fontWeight: 500 }}>To</label>
+          <input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} style={inputStyle} />
+        </div>
+        <div style={{ flex: '1 1 140px' }}>
+          <label style={{ display: 'block', marginBottom: '4px', fontSize: '12px', fontWeight: 500 }}>Tag</label>
+          <select value={tagId} onChange={(e) => setTagId(e.target.value)} style={{ ...inputStyle, width: '100%' }}>
+            <option value="">Any tag</option>
+            {allTags.map((tag: any) => (
+              <option key={tag.id} value={tag.id}>{tag.name}</option>
+            ))}
+          </select>
+        </div>
+        <div style={{ flex: '1 1 160px' }}>
+          <label style={{ display: 'block', marginBottom: '4px', fontSize: '12px', fontWeight: 500 }}>Folder</label>
+          <select value={folderPath} onChange={(e) => setFolderPath(e.target.value)} style={{ ...inputStyle, width: '100%' }}>
+            <option value="">Any folder</option>
+            {folders.map(folder => (
+              <option key={folder} value={folder}>{folder}</option>
+            ))}
+          </select>
+        </div>
+        {hasFilters && (
+          <button className="btn btn-secondary" onClick={handleClearFilters} style={{ fontSize: '12px', padding: '6px 12px' }}>
+            Clear
+          </button>
+        )}
+        <div style={{ display: 'flex', gap: '6px', marginLeft: 'auto' }}>
+          <select
+            value={exportFormat}
+            onChange={(e) => setExportFormat(e.target.value as 'csv' | 'json')}
+            style={inputStyle}
+            title="Export format"
+          >
+            <option value="csv">CSV</option>
+            <option value="json">JSON</option>
+          </select>
+          <button
+            className="btn btn-primary"
+            onClick={handleExport}
+            disabled={isExporting}
+            style={{ fontSize: '12px', padding: '6px 12px', whiteSpace: 'nowrap' }}
+            title="Export all uploads matching the current filters"
+          >
+            {isExporting ? '⏳ Exporting...' : '📤 Export'}
+          </button>
+        </div>
+      </div>
+
+      {!isLoading && items.length === 0 ? (
+        <div className="empty-state">
+          <div className="empty-state-icon">📜</div>
+          <h3>{hasFilters ? 'No matching uploads' : 'No uploads yet'}</h3>
+          <p>{hasFilters ? 'Try widening the search or filters' : 'Files appear here once they have been uploaded to OneDrive'}</p>
+        </div>
+      ) : (
+        <div className="history-list">
+          {items.map(item => (
+            <div key={item.id} className="queue-item" style={{ flexDirection: 'column', alignItems: 'stretch', gap: '6px' }}>
+              <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '10px' }}>
+                <div style={{ minWidth: 0 }}>
+                  <div style={{ fontWeight: 'bold', color: '#2c3e50', wordBreak: 'break-word' }}>
+                    📄 {item.displayName || item.fileName}
+                  </div>
+                  <div style={{ fontSize: '12px', color: '#7f8c8d' }}>
+                    {formatFileSize(item.fileSize)} • {formatDate(item.processedAt)}
+                    {item.uploadedBy && ` • ${item.uploadedBy}`}
+                  </div>
+                </div>
+                {item.webUrl && (
+                  <button
+                    className="btn btn-secondary"
+                    onClick={() => handleOpenInOneDrive(item)}
+                    style={{ fontSize: '12px', padding: '4px 10px', flexShrink: 0 }}
+                  >
+                    🌐 Open in OneDrive
+                  </button>
+                )}
+              </div>
+
+              <div style={{ fontSize: '12px', color: '#666' }}>
+                <strong>Folder:</strong> {item.folderPath || 'OneDrive Root'}
+              </div>
+
+              {parseTags(item.tags).length > 0 && (
+                <div style={{ display: 'flex', flexWrap: 'wrap', gap: '5px' }}>
+                  {parseTags(item.tags).map(id => (
+                    <span key={id} style={{ padding: '2px 8px', fontSize: '11px', borderRadius: '12px', backgroundColor: '#3498db', color: '#fff' }}>
+                      {getTagName(id)}
+                    </span>
+                  ))}
+                </div>
+              )}
+
+              {item.displayName && item.displayName !== item.fileName && (
+                <div style={{ fontSize: '11px', color: '#999' }}>
+                  Originally {item.fileName}
+                </div>
+              )}
+            </div>
+          ))}
+
+          {hasMore && (
+            <button
+              className="btn btn-secondary"
+              onClick={() => loadHistory(true)}
+              disabled={isLoading}
+              style={{ width: '100%', fontSize: '12px' }}
+            >
+              {isLoading ? 'Loading...' : 'Load More'}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
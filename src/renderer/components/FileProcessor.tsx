@@ -61,7 +61,7 @@ export const FileProcessor: React.FC<FileProcessorProps> = ({
   const loadData = async () => {
     try {
       setIsLoading(true);
-      const tagsData = await window.electronAPI.getTagCategories();
+      const { categories: tagsData } = await window.electronAPI.getTagCategories();
       setTags(tagsData);
     } catch (error) {
       console.error('Error loading data:', error);
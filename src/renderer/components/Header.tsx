@@ -29,8 +29,7 @@ export const Header: React.FC<HeaderProps> = () => {
       const preferences = await window.electronAPI.getPreferences();
       if (preferences?.apiBaseUrl) {
         // Test connection to API
-        const response = await fetch(`${preferences.apiBaseUrl}/api/health`);
-        setIsConnected(response.ok);
+        setIsConnected(await window.electronAPI.checkApiHealth(preferences.apiBaseUrl));
       }
       
       // Load drop folder path
@@ -0,0 +1,123 @@
+import React from 'react';
+import { PathMapping } from '../../config/pathMapping';
+
+interface PathMappingSettingsProps {
+  mappings: PathMapping[];
+  onChange: (mappings: PathMapping[]) => void;
+  title?: string;
+  description?: string;
+}
+
+const inputStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '6px 10px',
+  border: '1px solid #d9d9d9',
+  borderRadius: '4px',
+  fontSize: '13px',
+  backgroundColor: '#fff'
+};
+
+const DEFAULT_DESCRIPTION = 'Pair each local OneDrive sync folder with the drive and folder it syncs. Leave the drive ID empty to use your default OneDrive.';
+
+const PathMappingSettings: React.FC<PathMappingSettingsProps> = ({ mappings, onChange, title = 'Path Mappings', description = DEFAULT_DESCRIPTION }) => {
+  const updateMapping = (id: string, updates: Partial<PathMapping>) => {
+    onChange(mappings.map(mapping => mapping.id === id ? { ...mapping, ...updates } : mapping));
+  };
+
+  const handleAddMapping = () => {
+    onChange([
+      ...mappings,
+      { id: Date.now().toString(36), localRoot: '', remoteRoot: '' }
+    ]);
+  };
+
+  const handleRemoveMapping = (id: string) => {
+    onChange(mappings.filter(mapping => mapping.id !== id));
+  };
+
+  const handleBrowse = async (mapping: PathMapping) => {
+    try {
+      const selectedPath = await window.electronAPI.selectOneDriveFolder(mapping.localRoot || undefined);
+      if (selectedPath) {
+        updateMapping(mapping.id, { localRoot: selectedPath });
+      }
+    } catch (error) {
+      console.error('[PATHMAPPINGS] Error selecting folder:', error);
+    }
+  };
+
+  return (
+    <div style={{ marginBottom: '20px', padding: '15px', border: '1px solid #d9d9d9', borderRadius: '6px', backgroundColor: '#fafafa' }}>
+      <h3 style={{ margin: '0 0 5px 0', fontSize: '16px', color: '#262626' }}>{title}</h3>
+      <p style={{ margin: '0 0 15px 0', fontSize: '12px', color: '#999' }}>
+        {description}
+      </p>
+
+      {mappings.length === 0 && (
+        <div style={{ fontSize: '13px', color: '#666', marginBottom: '15px' }}>
+          No mappings configured. Local folders cannot be converted to OneDrive paths until one is added.
+        </div>
+      )}
+
+      {mappings.map(mapping => (
+        <div key={mapping.id} style={{ display: 'flex', gap: '8px', alignItems: 'flex-end', marginBottom: '10px' }}>
+          <div style={{ flex: 3, minWidth: 0 }}>
+            <label style={{ display: 'block', marginBottom: '4px', fontSize: '12px', fontWeight: '500' }}>Local sync folder</label>
+            <input
+              type="text"
+              value={mapping.localRoot}
+              onChange={(e) => updateMapping(mapping.id, { localRoot: e.target.value })}
+              placeholder="E:\365\OneDrive - Company"
+              style={inputStyle}
+            />
+          </div>
+          <button
+            className="btn btn-secondary"
+            onClick={() => handleBrowse(mapping)}
+            style={{ fontSize: '12px', padding: '6px 10px', whiteSpace: 'nowrap' }}
+          >
+            📁 Browse
+          </button>
+          <div style={{ flex: 2, minWidth: 0 }}>
+            <label style={{ display: 'block', marginBottom: '4px', fontSize: '12px', fontWeight: '500' }}>Drive ID</label>
+            <input
+              type="text"
+              value={mapping.driveId || ''}
+              onChange={(e) => updateMapping(mapping.id, { driveId: e.target.value || undefined })}
+              placeholder="Default drive"
+              style={inputStyle}
+            />
+          </div>
+          <div style={{ flex: 2, minWidth: 0 }}>
+            <label style={{ display: 'block', marginBottom: '4px', fontSize: '12px', fontWeight: '500' }}>Remote folder</label>
+            <input
+              type="text"
+              value={mapping.remoteRoot}
+              onChange={(e) => updateMapping(mapping.id, { remoteRoot: e.target.value })}
+              placeholder="Drive root"
+              style={inputStyle}
+            />
+          </div>
+          <button
+            className="btn btn-danger"
+            onClick={() => handleRemoveMapping(mapping.id)}
+            style={{ fontSize: '12px', padding: '6px 10px' }}
+            title="Remove mapping"
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+
+      <button
+        className="btn btn-secondary"
+        onClick={handleAddMapping}
+        style={{ fontSize: '12px', padding: '6px 12px' }}
+      >
+        ➕ Add Mapping
+      </button>
+    </div>
+  );
+};
+
+export default PathMappingSettings;
@@ -68,8 +68,8 @@ export const Preferences: React.FC<PreferencesProps> = ({
       setIsLoading(true);
       setConnectionStatus('unknown');
       
-      const response = await fetch(`${formData.apiBaseUrl}/api/health`);
-      setConnectionStatus(response.ok ? 'connected' : 'disconnected');
+      const healthy = await window.electronAPI.checkApiHealth(formData.apiBaseUrl);
+      setConnectionStatus(healthy ? 'connected' : 'disconnected');
     } catch (error) {
       console.error('Connection test failed:', error);
       setConnectionStatus('disconnected');
@@ -1,81 +1,154 @@
 import React, { useState, useEffect } from 'react';
+import { parseDbTimestamp, formatFileSize } from '../utils/format';
 
 interface ProcessingQueueItem {
-  id: string;
+  id: number;
   filePath: string;
   fileName: string;
+  displayName?: string;
   fileSize: number;
-  status: 'pending' | 'processing' | 'completed' | 'failed';
+  status: 'pending' | 'queued' | 'waiting_network' | 'waiting_auth' | 'processing' | 'completed' | 'error';
   errorMessage?: string;
+  attemptCount?: number;
+  nextRetryAt?: string;
+  processingStep?: 'upload' | 'associate' | 'cleanup';
+  uploadedItem?: { itemId: string; webUrl?: string };
+  accountId?: string;
   createdAt: string;
-  processedAt?: string;
+  updatedAt: string;
 }
 
-export const ProcessingQueue: React.FC = () => {
+interface ProcessingQueueProps {
+  maxAttempts: number;
+  /** Signed-in accounts, used to show which one uploads each item */
+  accounts?: { id: string; name: string; email: string }[];
+}
+
+type QueueFilter = 'all' | 'failed';
+
+export const ProcessingQueue: React.FC<ProcessingQueueProps> = ({ maxAttempts, accounts = [] }) => {
   const [queueItems, setQueueItems] = useState<ProcessingQueueItem[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [filter, setFilter] = useState<QueueFilter>('all');
+
+  const getAccountLabel = (accountId: string): string => {
+    const account = accounts.find(candidate => candidate.id === accountId);
+    return account ? account.email || account.name : 'Signed-out account';
+  };
 
   useEffect(() => {
     loadQueueItems();
-    
-    // Refresh every 5 seconds
+
+    // Reload when the main process changes the queue, and every 5 seconds so retry countdowns stay current
+    const unsubscribe = window.electronAPI.onQueueUpdated(() => loadQueueItems());
     const interval = setInterval(loadQueueItems, 5000);
-    
-    return () => clearInterval(interval);
+
+    return () => {
+      unsubscribe();
+      clearInterval(interval);
+    };
   }, []);
 
   const loadQueueItems = async () => {
     try {
-      const items: any[] = []; // Mock for now - queue functionality not implemented
-      setQueueItems(items);
+      const items: ProcessingQueueItem[] = await window.electronAPI.getProcessingQueue();
+      setQueueItems(items.filter(item => item.status !== 'completed'));
     } catch (error) {
-      console.error('Error loading queue items:', error);
+      console.error('[PROCESSINGQUEUE] Error loading queue items:', error);
     } finally {
       setIsLoading(false);
     }
   };
 
-  const handleRetry = async (fileId: string) => {
+  const handleRetry = async (id: number) => {
+    try {
+      await window.electronAPI.enqueueUpload([id]);
+    } catch (error) {
+      console.error('[PROCESSINGQUEUE] Error retrying upload:', error);
+    }
+  };
+
+  const handleRetryAll = async () => {
     try {
-      // Mock retry functionality
-      console.log('Retrying file processing for file:', fileId);
-      loadQueueItems(); // Refresh the queue
+      const retried = await window.electronAPI.retryFailedUploads();
+      console.log('[PROCESSINGQUEUE] Retrying failed uploads:', retried);
     } catch (error) {
-      console.error('Error retrying file processing:', error);
+      console.error('[PROCESSINGQUEUE] Error retrying failed uploads:', error);
     }
   };
 
-  const formatFileSize = (bytes: number): string => {
-    if (bytes === 0) return '0 Bytes';
-    const k = 1024;
-    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+  const handleDiscard = async (item: ProcessingQueueItem) => {
+    if (!confirm(`Remove "${item.displayName || item.fileName}" from the queue? The file stays in the drop folder.`)) {
+      return;
+    }
+
+    try {
+      await window.electronAPI.removeFromQueue([item.id]);
+    } catch (error) {
+      console.error('[PROCESSINGQUEUE] Error discarding queue item:', error);
+    }
   };
 
   const formatDate = (dateString: string): string => {
-    return new Date(dateString).toLocaleString();
+    return parseDbTimestamp(dateString).toLocaleString();
   };
 
-  const getStatusIcon = (status: string): string => {
-    switch (status) {
+  const formatRetryTime = (dateString: string): string => {
+    const seconds = Math.round((parseDbTimestamp(dateString).getTime() - Date.now()) / 1000);
+    if (seconds <= 0) return 'shortly';
+    if (seconds < 60) return `in ${seconds}s`;
+    return `in ${Math.round(seconds / 60)} min (${parseDbTimestamp(dateString).toLocaleTimeString()})`;
+  };
+
+  const isWaitingToRetry = (item: ProcessingQueueItem): boolean => {
+    return item.status === 'queued' && !!item.nextRetryAt;
+  };
+
+  const getStatusIcon = (item: ProcessingQueueItem): string => {
+    if (isWaitingToRetry(item)) return '🔁';
+    switch (item.status) {
       case 'pending':
+        return '📝';
+      case 'queued':
         return '⏳';
+      case 'waiting_network':
+        return '📴';
+      case 'waiting_auth':
+        return '🔐';
       case 'processing':
         return '🔄';
-      case 'completed':
-        return '✅';
-      case 'failed':
+      case 'error':
         return '❌';
       default:
         return '❓';
     }
   };
 
+  const getStatusLabel = (item: ProcessingQueueItem): string => {
+    if (isWaitingToRetry(item)) return 'RETRY SCHEDULED';
+    if (item.status === 'pending') return 'AWAITING REVIEW';
+    if (item.status === 'error') return 'FAILED';
+    if (item.status === 'waiting_network') return 'WAITING FOR NETWORK';
+    if (item.status === 'waiting_auth') return 'WAITING FOR SIGN-IN';
+    return item.status.toUpperCase();
+  };
+
+  // Map queue statuses onto the existing queue-status styles
+  const getStatusClass = (item: ProcessingQueueItem): string => {
+    if (item.status === 'error') return 'error';
+    if (item.status === 'processing') return 'processing';
+    return 'pending';
+  };
+
+  const failedCount = queueItems.filter(item => item.status === 'error').length;
+  const visibleItems = filter === 'failed'
+    ? queueItems.filter(item => item.status === 'error' || isWaitingToRetry(item))
+    : queueItems;
+
   if (isLoading) {
     return (
       <div className="processing-queue">
-        <div className="loading-container">
+        <div className="loading">
           <div className="loading-spinner"></div>
           <p>Loading processing queue...</p>
         </div>
@@ -85,55 +158,106 @@ export const ProcessingQueue: React.FC = () => {
 
   return (
     <div className="processing-queue">
-      <h2>Processing Queue</h2>
-      
-      {queueItems.length === 0 ? (
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '15px' }}>
+        <div style={{ display: 'flex', gap: '8px' }}>
+          <button
+            className={`btn ${filter === 'all' ? 'btn-primary' : 'btn-secondary'}`}
+            onClick={() => setFilter('all')}
+            style={{ fontSize: '12px', padding: '6px 12px' }}
+          >
+            All ({queueItems.length})
+          </button>
+          <button
+            className={`btn ${filter === 'failed' ? 'btn-primary' : 'btn-secondary'}`}
+            onClick={() => setFilter('failed')}
+            style={{ fontSize: '12px', padding: '6px 12px' }}
+          >
+            Failed ({failedCount})
+          </button>
+        </div>
+        <button
+          className="btn btn-primary"
+          onClick={handleRetryAll}
+          disabled={failedCount === 0}
+          style={{ fontSize: '12px', padding: '6px 12px' }}
+        >
+          🔁 Retry All Failed
+        </button>
+      </div>
+
+      {visibleItems.length === 0 ? (
         <div className="empty-state">
-          <div className="empty-state-icon">⏳</div>
-          <h3>No files in queue</h3>
-          <p>Files will appear here when they are detected in your drop folder</p>
+          <div className="empty-state-icon">{filter === 'failed' ? '✅' : '⏳'}</div>
+          <h3>{filter === 'failed' ? 'No failed uploads' : 'No files in queue'}</h3>
+          <p>
+            {filter === 'failed'
+              ? 'Uploads that fail are retried automatically and listed here'
+              : 'Files will appear here when they are detected in your drop folder'}
+          </p>
         </div>
       ) : (
         <div className="queue-list">
-          {queueItems.map((item) => (
-            <div key={item.id} className="queue-item">
-              <div className="queue-item-header">
-                <div className="queue-item-info">
-                  <div className="queue-item-name">
-                    {getStatusIcon(item.status)} {item.fileName}
+          {visibleItems.map((item) => (
+            <div
+              key={item.id}
+              className={`queue-item ${item.status === 'error' ? 'error' : item.status === 'processing' ? 'processing' : ''}`}
+              style={{ flexDirection: 'column', alignItems: 'stretch', gap: '6px' }}
+            >
+              <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '10px' }}>
+                <div style={{ minWidth: 0 }}>
+                  <div style={{ fontWeight: 'bold', color: '#2c3e50', wordBreak: 'break-word' }}>
+                    {getStatusIcon(item)} {item.displayName || item.fileName}
                   </div>
-                  <div className="queue-item-details">
-                    {formatFileSize(item.fileSize)} • {formatDate(item.createdAt)}
+                  <div style={{ fontSize: '12px', color: '#7f8c8d' }}>
+                    {formatFileSize(item.fileSize)} • Added {formatDate(item.createdAt)}
+                    {(item.attemptCount || 0) > 0 && ` • Attempt ${item.attemptCount} of ${maxAttempts}`}
+                    {accounts.length > 1 && item.accountId && ` • ${getAccountLabel(item.accountId)}`}
                   </div>
                 </div>
-                <div className="queue-item-actions">
-                  <span className={`queue-status ${item.status}`}>
-                    {item.status.toUpperCase()}
+                <div style={{ display: 'flex', gap: '8px', alignItems: 'center', flexShrink: 0 }}>
+                  <span className={`queue-status ${getStatusClass(item)}`}>
+                    {getStatusLabel(item)}
                   </span>
-                  {item.status === 'failed' && (
+                  {(item.status === 'error' || isWaitingToRetry(item)) && (
                     <button
-                      className="btn btn-primary btn-sm"
+                      className="btn btn-primary"
                       onClick={() => handleRetry(item.id)}
+                      style={{ fontSize: '12px', padding: '4px 10px' }}
                     >
-                      Retry
+                      {item.status === 'error' ? 'Retry' : 'Retry Now'}
+                    </button>
+                  )}
+                  {item.status !== 'processing' && (
+                    <button
+                      className="btn btn-danger"
+                      onClick={() => handleDiscard(item)}
+                      style={{ fontSize: '12px', padding: '4px 10px' }}
+                    >
+                      Discard
                     </button>
                   )}
                 </div>
               </div>
-              
+
               {item.errorMessage && (
-                <div className="queue-error">
-                  <strong>Error:</strong> {item.errorMessage}
+                <div style={{ fontSize: '12px', color: '#e74c3c', wordBreak: 'break-word' }}>
+                  <strong>Last error:</strong> {item.errorMessage}
                 </div>
               )}
-              
-              {item.processedAt && (
-                <div className="queue-processed">
-                  <strong>Processed:</strong> {formatDate(item.processedAt)}
+
+              {item.uploadedItem && item.processingStep === 'associate' && item.status !== 'processing' && (
+                <div style={{ fontSize: '12px', color: '#666' }}>
+                  <strong>Progress:</strong> Uploaded to OneDrive; tagging still to do. Retrying will not upload it again.
                 </div>
               )}
-              
-              <div className="queue-path">
+
+              {isWaitingToRetry(item) && item.nextRetryAt && (
+                <div style={{ fontSize: '12px', color: '#666' }}>
+                  <strong>Next retry:</strong> {formatRetryTime(item.nextRetryAt)}
+                </div>
+              )}
+
+              <div style={{ fontSize: '11px', color: '#999', wordBreak: 'break-all' }}>
                 <strong>Path:</strong> {item.filePath}
               </div>
             </div>
@@ -0,0 +1,416 @@
+import React, { useState, useEffect } from 'react';
+import { RoutingRule, RuleInput, RuleMatch } from '../../config/routingRules';
+import DriveSelect, { DriveTarget, formatDriveName } from './DriveSelect';
+
+interface RoutingRulesEditorProps {
+  rules: RoutingRule[];
+  tagCategories: any[];
+  dropFolderPath: string;
+  /** Drives the signed-in account can upload to */
+  drives: DriveTarget[];
+  onChange: (rules: RoutingRule[]) => void;
+}
+
+interface RulePreview {
+  input: RuleInput;
+  match: RuleMatch | null;
+}
+
+const inputStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '6px 10px',
+  border: '1px solid #d9d9d9',
+  borderRadius: '4px',
+  fontSize: '13px',
+  backgroundColor: '#fff'
+};
+
+const labelStyle: React.CSSProperties = {
+  display: 'block',
+  marginBottom: '4px',
+  fontSize: '12px',
+  fontWeight: 500
+};
+
+const smallButtonStyle: React.CSSProperties = {
+  fontSize: '12px',
+  padding: '4px 8px'
+};
+
+const BYTES_PER_MB = 1024 * 1024;
+
+const RoutingRulesEditor: React.FC<RoutingRulesEditorProps> = ({ rules, tagCategories, dropFolderPath, drives, onChange }) => {
+  const [expandedRuleId, setExpandedRuleId] = useState<string | null>(null);
+  const [sampleFileName, setSampleFileName] = useState('');
+  const [sampleFilePath, setSampleFilePath] = useState('');
+  const [dropFolderFiles, setDropFolderFiles] = useState<string[]>([]);
+  const [preview, setPreview] = useState<RulePreview | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+
+  const fileTags = tagCategories.flatMap(category =>
+    (category.tags || []).filter((tag: any) => tag.tag_type === 'file' || tag.tag_type === 'both')
+  );
+
+  useEffect(() => {
+    const loadDropFolderFiles = async () => {
+      if (!dropFolderPath || !window.electronAPI) {
+        setDropFolderFiles([]);
+        return;
+      }
+      try {
+        setDropFolderFiles(await window.electronAPI.listFilesInFolder(dropFolderPath));
+      } catch (error) {
+        console.error('[ROUTINGRULES] Error listing drop folder files:', error);
+      }
+    };
+
+    loadDropFolderFiles();
+  }, [dropFolderPath]);
+
+  // Compare rules by value so a fresh array from the parent does not re-run the preview
+  const rulesKey = JSON.stringify(rules);
+
+  // Re-run the preview whenever the sample or the rules change
+  useEffect(() => {
+    if (!sampleFileName && !sampleFilePath) {
+      setPreview(null);
+      setPreviewError(null);
+      return;
+    }
+
+    let cancelled = false;
+    const runPreview = async () => {
+      try {
+        const result = await window.electronAPI.testRoutingRules(
+          rules,
+          sampleFilePath ? { filePath: sampleFilePath } : { fileName: sampleFileName }
+        );
+        if (!cancelled) {
+          setPreview(result);
+          setPreviewError(null);
+        }
+      } catch (error) {
+        if (!cancelled) {
+          setPreview(null);
+          setPreviewError(error instanceof Error ? error.message : String(error));
+        }
+      }
+    };
+
+    runPreview();
+    return () => {
+      cancelled = true;
+    };
+  }, [rulesKey, sampleFileName, sampleFilePath]);
+
+  const updateRule = (id: string, updates: Partial<RoutingRule>) => {
+    onChange(rules.map(rule => rule.id === id ? { ...rule, ...updates } : rule));
+  };
+
+  const handleAddRule = () => {
+    const rule: RoutingRule = {
+      id: Date.now().toString(36),
+      name: `Rule ${rules.length + 1}`,
+      enabled: true,
+      tagIds: [],
+      autoUpload: false
+    };
+    onChange([...rules, rule]);
+    setExpandedRuleId(rule.id);
+  };
+
+  const handleDeleteRule = (rule: RoutingRule) => {
+    if (confirm(`Delete the routing rule "${rule.name}"?`)) {
+      onChange(rules.filter(candidate => candidate.id !== rule.id));
+    }
+  };
+
+  const handleMoveRule = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= rules.length) return;
+
+    const reordered = [...rules];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onChange(reordered);
+  };
+
+  const handleTagToggle = (rule: RoutingRule, tagId: number) => {
+    updateRule(rule.id, {
+      tagIds: rule.tagIds.includes(tagId)
+        ? rule.tagIds.filter(id => id !== tagId)
+        : [...rule.tagIds, tagId]
+    });
+  };
+
+  const parseSizeMb = (value: string): number | undefined => {
+    const parsed = parseFloat(value);
+    return isNaN(parsed) ? undefined : Math.round(parsed * BYTES_PER_MB);
+  };
+
+  const formatSizeMb = (bytes?: number): string => {
+    return bytes === undefined ? '' : String(bytes / BYTES_PER_MB);
+  };
+
+  const getTagName = (tagId: number): string => {
+    return fileTags.find((tag: any) => tag.id === tagId)?.name || `#${tagId}`;
+  };
+
+  const describeTarget = (targetFolder?: string, targetDriveId?: string): string => {
+    const folder = targetFolder || 'default folder';
+    if (!targetDriveId) return folder;
+    const drive = drives.find(candidate => candidate.id === targetDriveId);
+    return `${drive ? formatDriveName(drive) : 'Other drive'}: ${folder}`;
+  };
+
+  const describeRule = (rule: RoutingRule): string => {
+    const conditions: string[] = [];
+    if (rule.filenamePattern) conditions.push(`name "${rule.filenamePattern}"`);
+    if (rule.extensions && rule.extensions.some(ext => ext.trim())) conditions.push(`.${rule.extensions.filter(ext => ext.trim()).join('/.')}`);
+    if (rule.sourceSubfolder) conditions.push(`in ${rule.sourceSubfolder}`);
+    if (rule.minSizeBytes !== undefined || rule.maxSizeBytes !== undefined) conditions.push('size limit');
+    return conditions.length > 0 ? conditions.join(', ') : 'every file';
+  };
+
+  return (
+    <div style={{ marginBottom: '20px', padding: '15px', border: '1px solid #d9d9d9', borderRadius: '6px', backgroundColor: '#fafafa' }}>
+      <h3 style={{ margin: '0 0 5px 0', fontSize: '16px', color: '#262626' }}>Routing Rules</h3>
+      <p style={{ margin: '0 0 15px 0', fontSize: '12px', color: '#999' }}>
+        Rules are checked from top to bottom when a file is detected; the first match sets its folder, tags and name.
+        Files that match no rule wait for manual review.
+      </p>
+
+      {rules.length === 0 && (
+        <div style={{ fontSize: '13px', color: '#666', marginBottom: '15px' }}>
+          No routing rules yet. Every file will need its folder and tags chosen by hand.
+        </div>
+      )}
+
+      {rules.map((rule, index) => (
+        <div key={rule.id} style={{ border: '1px solid #e1e8ed', borderRadius: '6px', backgroundColor: '#fff', marginBottom: '10px' }}>
+          <div style={{ display: 'flex', alignItems: 'center', gap: '8px', padding: '8px 10px' }}>
+            <input
+              type="checkbox"
+              checked={rule.enabled}
+              onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })}
+              title={rule.enabled ? 'Disable rule' : 'Enable rule'}
+            />
+            <div style={{ flex: 1, minWidth: 0, opacity: rule.enabled ? 1 : 0.5 }}>
+              <div style={{ fontSize: '13px', fontWeight: 'bold', color: '#2c3e50' }}>
+                {index + 1}. {rule.name}
+                {rule.autoUpload && <span style={{ marginLeft: '8px', fontSize: '11px', color: '#27ae60' }}>🚀 Auto-upload</span>}
+              </div>
+              <div style={{ fontSize: '11px', color: '#7f8c8d' }}>
+                {describeRule(rule)} → {describeTarget(rule.targetFolder, rule.targetDriveId)}
+              </div>
+            </div>
+            <button className="btn btn-secondary" style={smallButtonStyle} onClick={() => handleMoveRule(index, -1)} disabled={index === 0} title="Move up">↑</button>
+            <button className="btn btn-secondary" style={smallButtonStyle} onClick={() => handleMoveRule(index, 1)} disabled={index === rules.length - 1} title="Move down">↓</button>
+            <button
+              className="btn btn-secondary"
+              style={smallButtonStyle}
+              onClick={() => setExpandedRuleId(expandedRuleId === rule.id ? null : rule.id)}
+            >
+              {expandedRuleId === rule.id ? 'Done' : '✏️ Edit'}
+            </button>
+            <button className="btn btn-danger" style={smallButtonStyle} onClick={() => handleDeleteRule(rule)} title="Delete rule">✕</button>
+          </div>
+
+          {expandedRuleId === rule.id && (
+            <div style={{ borderTop: '1px solid #e1e8ed', padding: '10px', display: 'flex', flexDirection: 'column', gap: '10px' }}>
+              <div>
+                <label style={labelStyle}>Name</label>
+                <input type="text" value={rule.name} onChange={(e) => updateRule(rule.id, { name: e.target.value })} style={inputStyle} />
+              </div>
+
+              <div style={{ display: 'flex', gap: '10px' }}>
+                <div style={{ flex: 2 }}>
+                  <label style={labelStyle}>Filename pattern</label>
+                  <input
+                    type="text"
+                    value={rule.filenamePattern || ''}
+                    onChange={(e) => updateRule(rule.id, { filenamePattern: e.target.value || undefined })}
+                    placeholder="*invoice*"
+                    style={inputStyle}
+                  />
+                </div>
+                <div style={{ flex: 1 }}>
+                  <label style={labelStyle}>Extensions</label>
+                  <input
+                    type="text"
+                    value={(rule.extensions || []).join(', ')}
+                    onChange={(e) => updateRule(rule.id, { extensions: e.target.value ? e.target.value.split(',').map(ext => ext.trim()) : undefined })}
+                    placeholder="pdf, docx"
+                    style={inputStyle}
+                  />
+                </div>
+              </div>
+
+              <div style={{ display: 'flex', gap: '10px' }}>
+                <div style={{ flex: 2 }}>
+                  <label style={labelStyle}>Source subfolder</label>
+                  <input
+                    type="text"
+                    value={rule.sourceSubfolder || ''}
+                    onChange={(e) => updateRule(rule.id, { sourceSubfolder: e.target.value || undefined })}
+                    placeholder="Any subfolder"
+                    style={inputStyle}
+                  />
+                </div>
+                <div style={{ flex: 1 }}>
+                  <label style={labelStyle}>Min size (MB)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={formatSizeMb(rule.minSizeBytes)}
+                    onChange={(e) => updateRule(rule.id, { minSizeBytes: parseSizeMb(e.target.value) })}
+                    style={inputStyle}
+                  />
+                </div>
+                <div style={{ flex: 1 }}>
+                  <label style={labelStyle}>Max size (MB)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={formatSizeMb(rule.maxSizeBytes)}
+                    onChange={(e) => updateRule(rule.id, { maxSizeBytes: parseSizeMb(e.target.value) })}
+                    style={inputStyle}
+                  />
+                </div>
+              </div>
+
+              <div style={{ display: 'flex', gap: '10px' }}>
+                <div style={{ flex: 1 }}>
+                  <label style={labelStyle}>Target drive</label>
+                  <DriveSelect
+                    drives={drives}
+                    value={rule.targetDriveId}
+                    onChange={(targetDriveId) => updateRule(rule.id, { targetDriveId })}
+                    defaultLabel="Default upload drive"
+                    style={inputStyle}
+                  />
+                </div>
+                <div style={{ flex: 1 }}>
+                  <label style={labelStyle}>Target OneDrive folder</label>
+                  <input
+                    type="text"
+                    value={rule.targetFolder || ''}
+                    onChange={(e) => updateRule(rule.id, { targetFolder: e.target.value || undefined })}
+                    placeholder="Clients/Loans"
+                    style={inputStyle}
+                  />
+                </div>
+                <div style={{ flex: 1 }}>
+                  <label style={labelStyle}>Rename template</label>
+                  <input
+                    type="text"
+                    value={rule.renameTemplate || ''}
+                    onChange={(e) => updateRule(rule.id, { renameTemplate: e.target.value || undefined })}
+                    placeholder="{date} {name}"
+                    style={inputStyle}
+                  />
+                  <small style={{ color: '#999', fontSize: '11px' }}>
+                    {'{name} {ext} {date} {year} {month} {day} {subfolder}'}
+                  </small>
+                </div>
+              </div>
+
+              <div>
+                <label style={labelStyle}>Tags ({rule.tagIds.length} selected)</label>
+                <div style={{ display: 'flex', flexWrap: 'wrap', gap: '5px' }}>
+                  {fileTags.length > 0 ? fileTags.map((tag: any) => (
+                    <button
+                      key={tag.id}
+                      onClick={() => handleTagToggle(rule, tag.id)}
+                      style={{
+                        padding: '4px 8px',
+                        fontSize: '11px',
+                        border: '1px solid #ddd',
+                        borderRadius: '12px',
+                        backgroundColor: rule.tagIds.includes(tag.id) ? '#3498db' : '#fff',
+                        color: rule.tagIds.includes(tag.id) ? '#fff' : '#333',
+                        cursor: 'pointer'
+                      }}
+                    >
+                      {tag.name}
+                    </button>
+                  )) : (
+                    <span style={{ fontSize: '12px', color: '#7f8c8d' }}>No tags available</span>
+                  )}
+                </div>
+              </div>
+
+              <label style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '13px' }}>
+                <input
+                  type="checkbox"
+                  checked={rule.autoUpload}
+                  onChange={(e) => updateRule(rule.id, { autoUpload: e.target.checked })}
+                />
+                Upload matching files without asking
+              </label>
+            </div>
+          )}
+        </div>
+      ))}
+
+      <button className="btn btn-secondary" onClick={handleAddRule} style={{ fontSize: '12px', padding: '6px 12px' }}>
+        ➕ Add Rule
+      </button>
+
+      <div style={{ marginTop: '15px', paddingTop: '15px', borderTop: '1px solid #e1e8ed' }}>
+        <label style={labelStyle}>Test against a sample file</label>
+        <div style={{ display: 'flex', gap: '10px' }}>
+          <input
+            type="text"
+            value={sampleFileName}
+            onChange={(e) => {
+              setSampleFileName(e.target.value);
+              setSampleFilePath('');
+            }}
+            placeholder="Type a filename, e.g. Scans/Loan Pack.pdf"
+            style={{ ...inputStyle, flex: 1 }}
+          />
+          <select
+            value={sampleFilePath}
+            onChange={(e) => {
+              setSampleFilePath(e.target.value);
+              setSampleFileName('');
+            }}
+            style={{ ...inputStyle, flex: 1 }}
+            disabled={dropFolderFiles.length === 0}
+          >
+            <option value="">{dropFolderFiles.length > 0 ? 'Or pick a file in the drop folder' : 'Drop folder is empty'}</option>
+            {dropFolderFiles.map(filePath => (
+              <option key={filePath} value={filePath}>
+                {filePath.split(/[\\/]/).pop()}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {previewError && (
+          <div style={{ marginTop: '10px', fontSize: '12px', color: '#e74c3c' }}>
+            Could not test rules: {previewError}
+          </div>
+        )}
+
+        {preview && (
+          <div style={{ marginTop: '10px', padding: '10px', borderRadius: '4px', fontSize: '12px', backgroundColor: preview.match ? '#f8fff8' : '#fff8e6', border: `1px solid ${preview.match ? '#27ae60' : '#faad14'}` }}>
+            {preview.match ? (
+              <>
+                <div><strong>Matches:</strong> {preview.match.rule.name}</div>
+                <div><strong>Folder:</strong> {describeTarget(preview.match.targetFolder, preview.match.targetDriveId)}</div>
+                <div><strong>Tags:</strong> {preview.match.tagIds.length > 0 ? preview.match.tagIds.map(getTagName).join(', ') : 'None'}</div>
+                <div><strong>Filename:</strong> {preview.match.fileName}</div>
+                <div><strong>Upload:</strong> {preview.match.autoUpload ? 'Automatically' : 'After review'}</div>
+              </>
+            ) : (
+              <div>No rule matches <strong>{preview.input.fileName}</strong>; it will wait for manual review.</div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RoutingRulesEditor;
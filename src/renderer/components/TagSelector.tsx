@@ -37,7 +37,7 @@ export const TagSelector: React.FC<TagSelectorProps> = ({
   const loadCategories = async () => {
     try {
       setIsLoading(true);
-      const categoriesData = await window.electronAPI.getTagCategories();
+      const { categories: categoriesData } = await window.electronAPI.getTagCategories();
       setCategories(categoriesData);
     } catch (error) {
       console.error('Error loading tag categories:', error);
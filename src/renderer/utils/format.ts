@@ -0,0 +1,15 @@
+/**
+ * Parse a timestamp from the local database. SQLite's CURRENT_TIMESTAMP is UTC
+ * without a zone ("2024-01-31 09:15:00"); ISO strings are passed through.
+ */
+export const parseDbTimestamp = (value: string): Date => {
+  return new Date(value.includes('T') ? value : value.replace(' ', 'T') + 'Z');
+};
+
+export const formatFileSize = (bytes: number, decimals = 2): string => {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(decimals)) + ' ' + sizes[i];
+};